@@ -0,0 +1,49 @@
+import type { HistoryMessage } from "@/helpers/conversation-history";
+import type { DataStreamEvent } from "@/helpers/data-stream-parser";
+import type { Logger } from "@/helpers/logger";
+import type {
+	AgentService,
+	CompletionResponse,
+	ToolCall,
+} from "@/helpers/message-handler";
+
+export type AgentBackendName = "bitte" | "openai" | "mock";
+
+export const isAgentBackendName = (value: unknown): value is AgentBackendName =>
+	value === "bitte" || value === "openai" || value === "mock";
+
+export interface AgentRequest {
+	chatId: string;
+	message: string;
+	evmAddress: string;
+	contextMessage?: string;
+	// Earlier turns of the conversation, oldest first
+	history?: HistoryMessage[];
+	// Bitte agent picked by the router, the configured one when missing
+	agentId?: string;
+	instructionsOverride?: string;
+	// Carries correlation fields from the caller
+	log?: Logger;
+	// Called for every stream event as it arrives, awaited in order
+	onEvent?: (event: DataStreamEvent) => void | Promise<void>;
+	// Called with the paired call as soon as a tool result arrives
+	onToolResult?: (toolCall: ToolCall) => void | Promise<void>;
+}
+
+/**
+ * Where completions come from
+ *
+ * Every backend answers with the `CompletionResponse` shape, so the message
+ * pipeline does not know which one it talks to.
+ */
+export interface AgentBackend {
+	name: AgentBackendName;
+	sendToAgent: (request: AgentRequest) => Promise<CompletionResponse>;
+	// Backends with their own model or script react with it, the default one
+	// asks OpenAI
+	generateReaction?: AgentService["generateReaction"];
+}
+
+// Reply used by every backend when the completion could not be produced
+export const ERROR_REPLY =
+	"I'm sorry, but I'm experiencing some technical difficulties right now. Please try again in a few moments.";
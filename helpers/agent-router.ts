@@ -0,0 +1,108 @@
+import { readFileSync } from "node:fs";
+
+export interface AgentRoute {
+	// Shows up in logs
+	name: string;
+	// Bitte agent ID, without the bitte-xmtp- prefix
+	agentId: string;
+	instructionsOverride?: string;
+}
+
+/**
+ * A route with the conditions that select it, all given conditions must match
+ */
+export interface RouteRule extends AgentRoute {
+	match: {
+		conversationType?: "dm" | "group";
+		groupId?: string;
+		// Any address linked to the sender's inbox
+		senderAddress?: string;
+		// Case-insensitive text anywhere in the message
+		keyword?: string;
+		// Case-insensitive start of the message, e.g. "/nft"
+		prefix?: string;
+	};
+}
+
+export interface RoutingConfig {
+	default: AgentRoute;
+	// Checked in order, the first match wins
+	rules: RouteRule[];
+}
+
+export interface RouteContext {
+	kind: "dm" | "group";
+	conversationId: string;
+	senderAddresses: string[];
+	message: string;
+}
+
+export type AgentRouter = (context: RouteContext) => AgentRoute;
+
+const matchesRule = (
+	{ match }: RouteRule,
+	{ kind, conversationId, senderAddresses, message }: RouteContext,
+) => {
+	const text = message.trim().toLowerCase();
+
+	if (match.conversationType && match.conversationType !== kind) return false;
+	if (match.groupId && (kind !== "group" || match.groupId !== conversationId)) {
+		return false;
+	}
+	if (
+		match.senderAddress &&
+		!senderAddresses.some(
+			(address) => address.toLowerCase() === match.senderAddress?.toLowerCase(),
+		)
+	) {
+		return false;
+	}
+	if (match.keyword && !text.includes(match.keyword.toLowerCase())) {
+		return false;
+	}
+	if (match.prefix && !text.startsWith(match.prefix.toLowerCase())) {
+		return false;
+	}
+	return true;
+};
+
+/**
+ * Pick the Bitte agent that answers a message
+ */
+export const createAgentRouter = (config: RoutingConfig): AgentRouter => {
+	return (context) =>
+		config.rules.find((rule) => matchesRule(rule, context)) ?? config.default;
+};
+
+/**
+ * Read routing rules from a JSON file `{ default?, rules }`
+ *
+ * Without a file, or without a `default` in it, everything goes to
+ * `defaultAgentId`.
+ */
+export const loadRoutingConfig = (
+	filePath: string | undefined,
+	defaultAgentId: string,
+): RoutingConfig => {
+	const fallback: AgentRoute = { name: "default", agentId: defaultAgentId };
+	if (!filePath) return { default: fallback, rules: [] };
+
+	const parsed = JSON.parse(
+		readFileSync(filePath, "utf8"),
+	) as Partial<RoutingConfig>;
+	const rules = parsed.rules ?? [];
+
+	rules.forEach((rule, index) => {
+		if (!rule.agentId || !rule.match) {
+			throw new Error(
+				`Routing rule ${index} in ${filePath} needs an agentId and a match`,
+			);
+		}
+		rule.name ??= `rule-${index}`;
+	});
+
+	return {
+		default: parsed.default ? { ...fallback, ...parsed.default } : fallback,
+		rules,
+	};
+};
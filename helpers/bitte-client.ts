@@ -1,19 +1,59 @@
-import { type ChatRequest, generateId, type ToolInvocation } from "ai";
+import { type ChatRequest, generateId } from "ai";
+import {
+	type AgentBackend,
+	type AgentRequest,
+	ERROR_REPLY,
+} from "./agent-backend";
+import type { CircuitBreaker } from "./circuit-breaker";
 import { BITTE_AGENT_ID, BITTE_API_KEY, CHAT_API_URL } from "./config";
+import {
+	createCompletionCollector,
+	createLineSplitter,
+	parseDataStreamLine,
+	readDataStream,
+} from "./data-stream-parser";
+import { logger } from "./logger";
+import type { CompletionResponse } from "./message-handler";
+import { metrics } from "./metrics";
 
-export async function sendToAgent({
-	chatId,
-	message,
-	evmAddress,
-	contextMessage,
-	instructionsOverride,
-}: {
-	chatId: string;
-	message: string;
-	evmAddress: string;
-	contextMessage?: string;
-	instructionsOverride?: string;
-}) {
+export interface BitteRequestOptions {
+	// Limit for one HTTP attempt, including reading the streamed body
+	attemptTimeoutMs?: number;
+	// Limit for the whole call, retries and their delays included
+	deadlineMs?: number;
+	// Shared across calls, skips requests while the runtime keeps failing
+	breaker?: CircuitBreaker;
+}
+
+/**
+ * The Bitte AI runtime at `CHAT_API_URL`
+ */
+export const createBitteBackend = (
+	options: BitteRequestOptions = {},
+): AgentBackend => ({
+	name: "bitte",
+	sendToAgent: (request) => sendToAgent(request, options),
+});
+
+export async function sendToAgent(
+	{
+		chatId,
+		message,
+		evmAddress,
+		contextMessage,
+		history = [],
+		agentId = BITTE_AGENT_ID,
+		instructionsOverride,
+		log = logger.child({ chatId }),
+		onEvent,
+		onToolResult,
+	}: AgentRequest,
+	{
+		attemptTimeoutMs = 60_000,
+		deadlineMs = 120_000,
+		breaker,
+	}: BitteRequestOptions = {},
+): Promise<CompletionResponse> {
 	const messagesWithContext: ChatRequest["messages"] = [
 		...(contextMessage
 			? [
@@ -25,6 +65,12 @@ export async function sendToAgent({
 					},
 				]
 			: []),
+		...history.map(({ role, content }) => ({
+			id: generateId(),
+			role,
+			content,
+			parts: [{ type: "text" as const, text: content }],
+		})),
 		{
 			id: generateId(),
 			createdAt: new Date(),
@@ -51,16 +97,51 @@ export async function sendToAgent({
 		messages: messagesWithContext,
 		config: {
 			// append bitte-xmtp- prefix required by Bitte API
-			agentId: `bitte-xmtp-${BITTE_AGENT_ID}`,
+			agentId: `bitte-xmtp-${agentId}`,
 			instructionsOverride,
 		},
 		evmAddress,
 	};
 
+	const fallbackResponse = (): CompletionResponse => ({
+		messageId: generateId(),
+		content: ERROR_REPLY,
+		finishReason: "error",
+		usage: null,
+		toolCalls: [],
+		raw: "",
+		isError: true,
+	});
+
+	// Answer right away while the runtime is known to be down
+	if (breaker && !breaker.tryAcquire()) {
+		log.warn("Bitte circuit breaker is open, skipping the request", {
+			breaker: breaker.status(),
+		});
+		metrics.agentRequestsShortCircuited.inc();
+		return fallbackResponse();
+	}
+
+	const deadline = Date.now() + deadlineMs;
+	const canRetryAfter = (delayMs: number) => Date.now() + delayMs < deadline;
+
 	const maxRetries = 3;
 	let lastError: Error | null = null;
+	// Once events reached the caller a retry would repeat them
+	let eventsEmitted = false;
+	// Client errors (4xx) say nothing about the runtime's health
+	let runtimeFailure = false;
+	// Thrown by onEvent/onToolResult, the runtime itself was fine
+	let handlerFailure: { error: unknown } | undefined;
 
 	for (let attempt = 1; attempt <= maxRetries; attempt++) {
+		runtimeFailure = false;
+		// Aborts the request and the body stream, whichever is still running
+		const timeout = createAttemptTimeout(
+			Math.max(Math.min(attemptTimeoutMs, deadline - Date.now()), 0),
+		);
+		const { signal } = timeout;
+
 		try {
 			const response = await fetch(CHAT_API_URL, {
 				method: "POST",
@@ -69,6 +150,7 @@ export async function sendToAgent({
 					Authorization: `Bearer ${BITTE_API_KEY}`,
 				},
 				body: JSON.stringify(payload),
+				signal,
 			});
 
 			if (!response.ok) {
@@ -77,63 +159,125 @@ export async function sendToAgent({
 					`Bitte API error: ${response.status} ${response.statusText} - ${errorText}`,
 				);
 				lastError = error;
+				runtimeFailure = isRetryableError(response.status);
+				metrics.agentAttemptFailures.inc({ reason: String(response.status) });
+
+				const delayMs = getRetryAfterMs(response) ?? getDelayMs(attempt);
 
 				// If this is the last attempt or it's not a retryable error, don't retry
-				if (attempt === maxRetries || !isRetryableError(response.status)) {
+				if (
+					attempt === maxRetries ||
+					!runtimeFailure ||
+					!canRetryAfter(delayMs)
+				) {
 					throw error;
 				}
 
-				console.warn(
-					`⚠️  Attempt ${attempt}/${maxRetries} failed, retrying in ${getDelayMs(
-						attempt,
-					)}ms...`,
-				);
-				await sleep(getDelayMs(attempt));
+				log.warn("Bitte API attempt failed, retrying", {
+					attempt,
+					maxRetries,
+					status: response.status,
+					delayMs,
+				});
+				await sleep(delayMs);
 				continue;
 			}
 
-			// Parse the streaming response
-			const responseText = await response.text();
-			const parsedResponse = parseStreamingResponse(responseText);
+			// Parse the streaming response as it arrives
+			const collector = createCompletionCollector();
+			let raw = "";
+			if (response.body) {
+				const [body, rawBody] = response.body.tee();
+				// raw copy for logging, a broken body already fails the parse
+				const rawText = new Response(rawBody).text().catch(() => "");
+				for await (const event of readDataStream(body, logInvalidLine)) {
+					const toolResult = collector.add(event);
+					eventsEmitted = true;
+					// Time spent in our own handlers is not the runtime's
+					timeout.pause();
+					try {
+						await onEvent?.(event);
+						if (toolResult) await onToolResult?.(toolResult);
+					} catch (error) {
+						handlerFailure = { error };
+						break;
+					}
+					timeout.resume();
+				}
+				if (handlerFailure) {
+					// Stop reading the response, the caller gets the handler error
+					timeout.abort();
+					break;
+				}
+				raw = await rawText;
+			}
+			const parsedResponse = { ...collector.result(), raw };
+
+			// The runtime reported an error inside a successful response
+			if (parsedResponse.isError) {
+				log.error("Bitte stream reported an error", {
+					error: parsedResponse.error,
+				});
+				if (!parsedResponse.content) parsedResponse.content = ERROR_REPLY;
+			}
 
 			// Success - log if we had to retry
 			if (attempt > 1) {
-				console.log(
-					`✅ Request succeeded on retry attempt ${attempt}/${maxRetries}`,
-				);
+				log.info("Bitte API request succeeded on retry", {
+					attempt,
+					maxRetries,
+				});
 			}
 
+			breaker?.recordSuccess();
 			return parsedResponse;
 		} catch (error) {
+			// HTTP errors were counted and judged not worth retrying above, a
+			// backoff here would retry ahead of the Retry-After they asked for
+			if (error === lastError) break;
+
+			// Anything else failed before or while reading the response
+			runtimeFailure = true;
+			metrics.agentAttemptFailures.inc({
+				reason: isTimeoutError(error) ? "timeout" : "network",
+			});
 			lastError = error as Error;
 
+			const delayMs = getDelayMs(attempt);
+
 			// If this is the last attempt, break out of the loop
-			if (attempt === maxRetries) {
+			if (attempt === maxRetries || eventsEmitted || !canRetryAfter(delayMs)) {
 				break;
 			}
 
-			console.warn(
-				`⚠️  Attempt ${attempt}/${maxRetries} failed: ${error}, retrying in ${getDelayMs(
-					attempt,
-				)}ms...`,
-			);
-			await sleep(getDelayMs(attempt));
+			log.warn("Bitte API attempt failed, retrying", {
+				attempt,
+				maxRetries,
+				error,
+				delayMs,
+			});
+			await sleep(delayMs);
+		} finally {
+			timeout.clear();
 		}
 	}
 
+	if (handlerFailure) {
+		breaker?.recordSuccess();
+		throw handlerFailure.error;
+	}
+
+	if (runtimeFailure) {
+		breaker?.recordFailure();
+	} else {
+		// The runtime answered, the request itself was rejected
+		breaker?.recordSuccess();
+	}
+
 	// All retries failed - return a user-friendly error response
-	console.error("❌ All retry attempts failed:", lastError);
+	log.error("All Bitte API retry attempts failed", { error: lastError });
 
-	return {
-		messageId: generateId(),
-		content:
-			"I'm sorry, but I'm experiencing some technical difficulties right now. Please try again in a few moments.",
-		finishReason: "error",
-		usage: null,
-		toolCalls: [],
-		raw: "",
-		isError: true,
-	};
+	return fallbackResponse();
 }
 
 /**
@@ -144,6 +288,70 @@ function isRetryableError(status: number): boolean {
 	return status >= 500 || status === 429;
 }
 
+/**
+ * Delay the server asked for with `Retry-After` on 429 and 503 responses,
+ * given either in seconds or as an HTTP date
+ */
+function getRetryAfterMs(response: Response): number | undefined {
+	if (response.status !== 429 && response.status !== 503) return undefined;
+
+	const header = response.headers.get("Retry-After");
+	if (!header) return undefined;
+
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Check if an error comes from an `AbortSignal.timeout`
+ */
+function isTimeoutError(error: unknown): boolean {
+	return error instanceof Error && error.name === "TimeoutError";
+}
+
+/**
+ * Abort signal for one attempt whose clock can be paused
+ *
+ * Aborts with a `TimeoutError` like `AbortSignal.timeout`.
+ */
+function createAttemptTimeout(ms: number) {
+	const controller = new AbortController();
+	let remainingMs = ms;
+	let startedAt = 0;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const resume = () => {
+		startedAt = Date.now();
+		timer = setTimeout(
+			() =>
+				controller.abort(
+					new DOMException("The operation timed out.", "TimeoutError"),
+				),
+			remainingMs,
+		);
+	};
+	const clear = () => clearTimeout(timer);
+
+	resume();
+
+	return {
+		signal: controller.signal,
+		pause: () => {
+			clear();
+			remainingMs = Math.max(remainingMs - (Date.now() - startedAt), 0);
+		},
+		resume,
+		clear,
+		abort: () => {
+			clear();
+			controller.abort();
+		},
+	};
+}
+
 /**
  * Calculate delay for exponential backoff
  */
@@ -159,76 +367,33 @@ function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+const logInvalidLine = (line: string, error: unknown) => {
+	// Skip unparseable lines
+	logger.warn("Skipping unparseable stream line", {
+		line: line.slice(0, 200),
+		error,
+	});
+};
+
 /**
- * Parse the streaming response from Bitte API
+ * Parse a complete streaming response from Bitte API
  * Format: f:{metadata}\n0:"text"\n0:"chunk"\ne:{endData}\nd:{doneData}\n8:[metadata]
+ * See `DataStreamEvent` for every part type.
+ *
+ * Buffered wrapper around the incremental parser in `data-stream-parser.ts`.
  */
-function parseStreamingResponse(responseText: string) {
-	const lines = responseText.split("\n").filter((line) => line.trim());
-
-	let messageId = "";
-	let fullText = "";
-	let finishReason = "";
-	let usage = null;
-	const toolCalls: ToolInvocation[] = [];
+export function parseStreamingResponse(responseText: string) {
+	const splitter = createLineSplitter();
+	const collector = createCompletionCollector();
 
-	for (const line of lines) {
+	for (const line of [...splitter.push(responseText), ...splitter.end()]) {
 		try {
-			if (line.startsWith("f:")) {
-				// Message metadata
-				const metadata = JSON.parse(line.substring(2));
-				messageId = metadata.messageId || "";
-			} else if (line.startsWith("0:")) {
-				// Text chunk
-				const textChunk = JSON.parse(line.substring(2));
-				fullText += textChunk;
-			} else if (line.startsWith("e:")) {
-				// End event
-				const endData = JSON.parse(line.substring(2));
-				finishReason = endData.finishReason || "";
-				usage = endData.usage || null;
-			} else if (line.startsWith("d:")) {
-				// Done event
-				const doneData = JSON.parse(line.substring(2));
-				if (!finishReason) finishReason = doneData.finishReason || "";
-				if (!usage) usage = doneData.usage || null;
-			} else if (line.startsWith("1:")) {
-				// Tool calls (if any)
-				try {
-					const toolCall = JSON.parse(line.substring(2));
-					toolCalls.push(toolCall);
-				} catch (_e) {
-					// Ignore invalid tool call data
-				}
-			} else if (line.startsWith("9:")) {
-				// Tool calls (if any)
-				try {
-					const toolCall = JSON.parse(line.substring(2));
-					toolCalls.push(toolCall);
-				} catch (_e) {
-					// Ignore invalid tool call data
-				}
-			} else if (line.startsWith("a:")) {
-				// Tool calls (if any)
-				try {
-					const toolCall = JSON.parse(line.substring(2));
-					toolCalls.push(toolCall);
-				} catch (_e) {
-					// Ignore invalid tool call data
-				}
-			}
-		} catch (parseError) {
-			// Skip unparseable lines
-			console.error({ SKIPPING_UNPARSEABLE_LINE: line, parseError });
+			const event = parseDataStreamLine(line);
+			if (event) collector.add(event);
+		} catch (error) {
+			logInvalidLine(line, error);
 		}
 	}
 
-	return {
-		messageId,
-		content: fullText,
-		finishReason,
-		usage,
-		toolCalls,
-		raw: responseText,
-	};
+	return { ...collector.result(), raw: responseText };
 }
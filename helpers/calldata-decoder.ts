@@ -0,0 +1,291 @@
+import {
+	type Address,
+	BaseError,
+	ContractFunctionRevertedError,
+	ContractFunctionZeroDataError,
+	decodeFunctionData,
+	erc20Abi,
+	formatUnits,
+	type Hex,
+	maxUint256,
+	type PublicClient,
+	parseAbi,
+} from "viem";
+import { getChain, getPublicClient } from "@/helpers/chains";
+
+export interface TokenInfo {
+	symbol: string;
+	decimals: number;
+}
+
+export interface DecodableCall {
+	chainId: number;
+	to: Address;
+	data?: Hex;
+	value?: Hex;
+}
+
+// Well-known tokens, so common calls are described without an RPC
+const KNOWN_TOKENS: Record<number, Record<string, TokenInfo>> = {
+	// Base
+	8453: {
+		"0x833589fcd6edb6e08f4c7c32d4f71b54bda02913": {
+			symbol: "USDC",
+			decimals: 6,
+		},
+		"0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca": {
+			symbol: "USDbC",
+			decimals: 6,
+		},
+		"0x4200000000000000000000000000000000000006": {
+			symbol: "WETH",
+			decimals: 18,
+		},
+		"0x50c5725949a6f0c72e6c4a641f24049a917db0cb": {
+			symbol: "DAI",
+			decimals: 18,
+		},
+		"0x60a3e35cc302bfa44cb288bc5a4f316fdb1adb42": {
+			symbol: "EURC",
+			decimals: 6,
+		},
+		"0x2ae3f1ec7f1f5012cfeab0185bfc7aa3cf0dec22": {
+			symbol: "cbETH",
+			decimals: 18,
+		},
+		"0xcbb7c0000ab88b473b1f5afd9ef808440eed33bf": {
+			symbol: "cbBTC",
+			decimals: 8,
+		},
+		"0x940181a94a35a4569e4529a3cdfb74e38fd98631": {
+			symbol: "AERO",
+			decimals: 18,
+		},
+	},
+	// Base Sepolia
+	84532: {
+		"0x036cbd53842c5426634e7929541ec2318f3dcf7e": {
+			symbol: "USDC",
+			decimals: 6,
+		},
+		"0x4200000000000000000000000000000000000006": {
+			symbol: "WETH",
+			decimals: 18,
+		},
+	},
+};
+
+// WETH on OP Stack chains and Ethereum, wrapping goes through `deposit` /
+// `withdraw`
+const WRAPPED_NATIVE = new Set([
+	"0x4200000000000000000000000000000000000006",
+	"0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",
+]);
+
+// ERC-721 / ERC-1155 transfers and WETH, ERC-20 comes from viem
+const callAbi = parseAbi([
+	"function safeTransferFrom(address from, address to, uint256 tokenId)",
+	"function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+	"function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+	"function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+	"function deposit()",
+	"function withdraw(uint256 wad)",
+]);
+
+// "<chainId>:<address>" to its token, null for contracts that are not ERC-20
+const tokenCache = new Map<string, Promise<TokenInfo | null>>();
+
+// A description is not worth holding the transaction back for long
+const TOKEN_LOOKUP_TIMEOUT = 2_000; // 2 seconds
+
+// The contract answered, but not like an ERC-20
+const isNotErc20 = (error: unknown) =>
+	error instanceof BaseError &&
+	Boolean(
+		error.walk(
+			(cause) =>
+				cause instanceof ContractFunctionRevertedError ||
+				cause instanceof ContractFunctionZeroDataError,
+		),
+	);
+
+/**
+ * Symbol and decimals of an ERC-20, from the built-in table or the chain
+ *
+ * Lookups are cached, failed RPC requests are retried on the next call. A
+ * lookup that takes longer than `timeoutMs` keeps running for the next call,
+ * this one goes without it.
+ *
+ * @returns Null when the contract is not an ERC-20, undefined when it can't be
+ *   told
+ */
+export const getTokenInfo = async (
+	chainId: number,
+	address: Address,
+	getClient: (chainId: number) => PublicClient | undefined = getPublicClient,
+	timeoutMs = TOKEN_LOOKUP_TIMEOUT,
+): Promise<TokenInfo | null | undefined> => {
+	const known = KNOWN_TOKENS[chainId]?.[address.toLowerCase()];
+	if (known) return known;
+
+	const client = getClient(chainId);
+	if (!client) return undefined;
+
+	const key = `${chainId}:${address.toLowerCase()}`;
+	let lookup = tokenCache.get(key);
+	if (!lookup) {
+		lookup = (async () => {
+			const contract = { address, abi: erc20Abi } as const;
+			const decimals = await client
+				.readContract({ ...contract, functionName: "decimals" })
+				.catch((error) => {
+					if (isNotErc20(error)) return null;
+					throw error;
+				});
+			if (decimals === null) return null;
+
+			// bytes32 symbols of older tokens don't decode as a string
+			const symbol = await client
+				.readContract({ ...contract, functionName: "symbol" })
+				.catch(() => shortAddress(address));
+			return { symbol, decimals };
+		})();
+		tokenCache.set(key, lookup);
+		// also when nobody waits for it anymore
+		lookup.catch(() => tokenCache.delete(key));
+	}
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<undefined>((resolve) => {
+		timer = setTimeout(resolve, timeoutMs, undefined);
+	});
+	try {
+		return await Promise.race([lookup, timeout]);
+	} catch {
+		return undefined;
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+export const shortAddress = (address: string) =>
+	`${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// At most 6 decimals, "1,234.5" rather than "1234.500000"
+const formatAmount = (amount: bigint, decimals: number) => {
+	const [whole = "0", fraction = ""] = formatUnits(amount, decimals).split(".");
+	const trimmed = fraction.slice(0, 6).replace(/0+$/, "");
+	const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+	if (trimmed) return `${grouped}.${trimmed}`;
+	return amount > 0n && grouped === "0" ? "<0.000001" : grouped;
+};
+
+const formatTokenAmount = (
+	amount: bigint,
+	token: TokenInfo | null | undefined,
+	address: Address,
+) =>
+	token
+		? `${formatAmount(amount, token.decimals)} ${token.symbol}`
+		: `${amount} units of ${shortAddress(address)}`;
+
+/**
+ * One-line description of a call for the wallet confirmation sheet
+ *
+ * Covers native sends, ERC-20 transfers and approvals, ERC-721 / ERC-1155
+ * transfers and WETH wrapping. Anything else is described by its target and
+ * the native value it sends. Token amounts whose token can't be looked up in
+ * time are given in raw units.
+ */
+export const describeCall = async (
+	{ chainId, to, data, value }: DecodableCall,
+	getClient: (chainId: number) => PublicClient | undefined = getPublicClient,
+	tokenTimeoutMs = TOKEN_LOOKUP_TIMEOUT,
+): Promise<string> => {
+	const nativeSymbol = getChain(chainId)?.nativeCurrency.symbol ?? "ETH";
+	const nativeValue = value ? BigInt(value) : 0n;
+	const native = `${formatAmount(nativeValue, 18)} ${nativeSymbol}`;
+
+	if (!data || data === "0x") {
+		return `Send ${native} to ${shortAddress(to)}`;
+	}
+
+	const fallback =
+		nativeValue > 0n
+			? `Call ${shortAddress(to)} with ${native}`
+			: `Call ${shortAddress(to)}`;
+
+	try {
+		const erc20 = decodeFunctionData({ abi: erc20Abi, data });
+		switch (erc20.functionName) {
+			case "transfer": {
+				const [recipient, amount] = erc20.args;
+				const token = await getTokenInfo(
+					chainId,
+					to,
+					getClient,
+					tokenTimeoutMs,
+				);
+				return `Send ${formatTokenAmount(amount, token, to)} to ${shortAddress(recipient)}`;
+			}
+			case "approve": {
+				const [spender, amount] = erc20.args;
+				const token = await getTokenInfo(
+					chainId,
+					to,
+					getClient,
+					tokenTimeoutMs,
+				);
+				const allowance =
+					amount === maxUint256
+						? `unlimited ${token?.symbol ?? shortAddress(to)}`
+						: formatTokenAmount(amount, token, to);
+				return `Approve ${allowance} for ${shortAddress(spender)}`;
+			}
+			case "transferFrom": {
+				// same selector for ERC-20 amounts and ERC-721 token IDs
+				const [from, recipient, amount] = erc20.args;
+				const token = await getTokenInfo(
+					chainId,
+					to,
+					getClient,
+					tokenTimeoutMs,
+				);
+				const transferred =
+					token === null
+						? `NFT #${amount} of ${shortAddress(to)}`
+						: formatTokenAmount(amount, token, to);
+				return `Transfer ${transferred} from ${shortAddress(from)} to ${shortAddress(recipient)}`;
+			}
+		}
+	} catch {
+		// not an ERC-20 call
+	}
+
+	try {
+		const call = decodeFunctionData({ abi: callAbi, data });
+		switch (call.functionName) {
+			case "safeTransferFrom": {
+				const [from, recipient, id] = call.args;
+				const amount = call.args.length === 5 ? `${call.args[3]}× ` : "";
+				return `Transfer ${amount}NFT #${id} of ${shortAddress(to)} from ${shortAddress(from)} to ${shortAddress(recipient)}`;
+			}
+			case "safeBatchTransferFrom": {
+				const [from, recipient, ids] = call.args;
+				return `Transfer ${ids.length} NFTs of ${shortAddress(to)} from ${shortAddress(from)} to ${shortAddress(recipient)}`;
+			}
+			case "deposit":
+				if (!WRAPPED_NATIVE.has(to.toLowerCase())) break;
+				return `Wrap ${native}`;
+			case "withdraw": {
+				if (!WRAPPED_NATIVE.has(to.toLowerCase())) break;
+				const [amount] = call.args;
+				return `Unwrap ${formatAmount(amount, 18)} W${nativeSymbol}`;
+			}
+		}
+	} catch {
+		// nothing we know
+	}
+
+	return fallback;
+};
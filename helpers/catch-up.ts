@@ -0,0 +1,86 @@
+import type { ConsentState, ListMessagesOptions } from "@xmtp/node-sdk";
+import { logger } from "@/helpers/logger";
+import type { AgentMessage } from "@/helpers/message-handler";
+import type { MessageLedger } from "@/helpers/message-ledger";
+
+/**
+ * The parts of the XMTP `Client` the catch-up pass uses.
+ */
+export interface CatchUpClient {
+	conversations: {
+		list: (options?: { consentStates?: ConsentState[] }) => Promise<
+			{
+				id: string;
+				messages: (options?: ListMessagesOptions) => Promise<AgentMessage[]>;
+			}[]
+		>;
+	};
+}
+
+/**
+ * Find messages sent while the stream was down and hand them to `dispatch`
+ *
+ * For each conversation, messages after the last processed one are fetched
+ * from the local db (call after `syncAll`). Conversations without history in
+ * the ledger start from the latest processed message in any conversation, so
+ * chats opened during an outage are covered too. On a fresh ledger there is
+ * nothing to catch up from and the pass is skipped.
+ *
+ * @returns The number of messages dispatched
+ */
+export const catchUpMissedMessages = async ({
+	client,
+	ledger,
+	consentStates,
+	maxAgeMs,
+	dispatch,
+}: {
+	client: CatchUpClient;
+	ledger: MessageLedger;
+	consentStates: ConsentState[];
+	// Never reach further back than this, even after a long outage
+	maxAgeMs: number;
+	dispatch: (message: AgentMessage) => boolean;
+}): Promise<number> => {
+	const globalSince = ledger.lastProcessedAt();
+	if (globalSince === undefined) return 0;
+
+	const oldestAllowed = Date.now() - maxAgeMs;
+	const conversations = await client.conversations.list({ consentStates });
+
+	let dispatched = 0;
+	let tooOld = 0;
+
+	for (const conversation of conversations) {
+		const since = ledger.lastProcessedAt(conversation.id) ?? globalSince;
+
+		const messages = await conversation.messages({
+			sentAfterNs: Math.max(since, oldestAllowed) * 1_000_000,
+		});
+
+		if (since < oldestAllowed) {
+			const skippedMessages = await conversation.messages({
+				sentAfterNs: since * 1_000_000,
+				sentBeforeNs: oldestAllowed * 1_000_000,
+			});
+			tooOld += skippedMessages.length;
+		}
+
+		const ordered = [...messages].sort(
+			(a, b) => a.sentAt.getTime() - b.sentAt.getTime(),
+		);
+		for (const message of ordered) {
+			if (dispatch(message)) dispatched++;
+		}
+	}
+
+	if (tooOld > 0) {
+		logger.warn("Catch-up skipped messages older than the max age", {
+			skipped: tooOld,
+			maxAgeMs,
+		});
+	}
+	logger.info("Catch-up dispatched missed messages", { dispatched });
+
+	return dispatched;
+};
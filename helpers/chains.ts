@@ -0,0 +1,52 @@
+import { type Chain, createPublicClient, http, type PublicClient } from "viem";
+import * as viemChains from "viem/chains";
+
+const chainsById = new Map<number, Chain>(
+	Object.values(viemChains).map((chain) => [chain.id, chain]),
+);
+const publicClients = new Map<number, PublicClient>();
+let rpcUrls: Record<number, string> = {};
+
+export const getChain = (chainId: number) => chainsById.get(chainId);
+
+/**
+ * Parse "8453=https://base.example,1=https://eth.example" into chain ID to URL
+ */
+export const parseRpcUrls = (value?: string) => {
+	const urls: Record<number, string> = {};
+	for (const entry of (value ?? "").split(",")) {
+		const [chainId, url] = entry.split(/=(.*)/).map((part) => part.trim());
+		if (chainId && url && Number.isInteger(Number(chainId))) {
+			urls[Number(chainId)] = url;
+		}
+	}
+	return urls;
+};
+
+/**
+ * Use these RPC endpoints instead of viem's public defaults
+ * A chain viem does not know becomes usable by giving it a URL.
+ */
+export const configureRpcUrls = (urls: Record<number, string>) => {
+	rpcUrls = urls;
+	publicClients.clear();
+};
+
+/**
+ * Read-only client for a chain, shared across callers
+ *
+ * @returns Undefined for chains viem does not know and no RPC URL is
+ *   configured for
+ */
+export const getPublicClient = (chainId: number): PublicClient | undefined => {
+	const cached = publicClients.get(chainId);
+	if (cached) return cached;
+
+	const chain = getChain(chainId);
+	const url = rpcUrls[chainId];
+	if (!chain && !url) return undefined;
+
+	const client = createPublicClient({ chain, transport: http(url) });
+	publicClients.set(chainId, client);
+	return client;
+};
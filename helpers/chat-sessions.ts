@@ -0,0 +1,247 @@
+import { ContentTypeReply, type Reply } from "@xmtp/content-type-reply";
+import { createJsonStore } from "@/helpers/json-store";
+import { logger } from "@/helpers/logger";
+import type {
+	AgentClient,
+	AgentMessage,
+	ConversationKind,
+} from "@/helpers/message-handler";
+
+// What shares an agent session in groups, DMs always have one per conversation
+export type SessionScope = "conversation" | "sender" | "thread";
+
+export const isSessionScope = (value: unknown): value is SessionScope =>
+	value === "conversation" || value === "sender" || value === "thread";
+
+export interface SessionKey {
+	conversationId: string;
+	// Sender inbox ID or thread root message ID, missing for the whole
+	// conversation
+	scopeId?: string;
+}
+
+interface SessionRecord {
+	// When the session was started (ms), missing for the original session
+	startedAt?: number;
+	lastActiveAt: number;
+	// Chat ID of a session reset before scopes existed, see `migrate`
+	chatId?: string;
+}
+
+// Store record before scopes and idle expiry, one per conversation with a
+// counter of resets as chat ID suffix
+interface LegacySessionRecord {
+	version: number;
+	startedAt: number;
+}
+
+const isLegacySessionRecord = (
+	value: SessionRecord | LegacySessionRecord,
+): value is LegacySessionRecord => "version" in value;
+
+interface SessionData {
+	// "<conversationId>" or "<conversationId>/<scopeId>" to its current session
+	sessions: Record<string, SessionRecord>;
+}
+
+export interface ChatSession {
+	// Bitte chat ID, a new one starts a fresh agent conversation
+	chatId: string;
+	// When the session was started (ms), undefined for the original one
+	startedAt?: number;
+}
+
+export interface ChatSessions {
+	// The current session, a new one when the last sat idle for too long,
+	// and mark it active
+	touch: (key: SessionKey) => ChatSession;
+	// Start a new session
+	reset: (key: SessionKey) => ChatSession;
+	flush: () => Promise<void>;
+}
+
+const PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+const SCOPED_SESSION_RETENTION = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const storeKey = ({ conversationId, scopeId }: SessionKey) =>
+	scopeId ? `${conversationId}/${scopeId}` : conversationId;
+
+/**
+ * Chat ID of a session
+ *
+ * The original conversation session keeps the historical
+ * `xmtp-<conversationId>` so existing conversations carry on. Every other
+ * session gets its start time as suffix, which never repeats, so a pruned
+ * session can't come back as an old Bitte chat.
+ */
+const toChatSession = (
+	{ conversationId, scopeId }: SessionKey,
+	{ startedAt, chatId }: Partial<SessionRecord> = {},
+): ChatSession => ({
+	chatId:
+		chatId ??
+		[
+			`xmtp-${conversationId}`,
+			scopeId,
+			startedAt === undefined ? undefined : startedAt.toString(36),
+		]
+			.filter(Boolean)
+			.join("-"),
+	startedAt,
+});
+
+/**
+ * Carry sessions of the per-conversation store over to the current records
+ *
+ * Their `xmtp-<conversationId>-<version>` chat ID is kept, so conversations
+ * that were reset stay in their Bitte chat. Their last activity is unknown,
+ * idle time counts from the migration.
+ */
+const migrate = (
+	// what the file holds, older records included
+	sessions: Record<string, SessionRecord | LegacySessionRecord>,
+	time: number,
+) => {
+	let migrated = 0;
+	for (const [key, session] of Object.entries(sessions)) {
+		if (!isLegacySessionRecord(session)) continue;
+		sessions[key] = {
+			startedAt: session.startedAt,
+			lastActiveAt: time,
+			chatId: `xmtp-${key}-${session.version}`,
+		};
+		migrated++;
+	}
+	return migrated;
+};
+
+/**
+ * Persistent agent sessions, with reset and idle expiry
+ *
+ * @param filePath - Where to keep the sessions, see `getSessionsPath`
+ * @param idleTimeoutMs - Inactivity after which the next message starts a
+ *   new session, 0 keeps sessions forever
+ */
+export const createChatSessions = ({
+	filePath,
+	idleTimeoutMs = 0,
+	now = Date.now,
+}: {
+	filePath: string;
+	idleTimeoutMs?: number;
+	now?: () => number;
+}): ChatSessions => {
+	const store = createJsonStore<SessionData>(filePath, { sessions: {} });
+	const migrated = migrate(store.data.sessions, now());
+	if (migrated) {
+		logger.info("Migrated agent sessions", { filePath, migrated });
+		store.save();
+	}
+	let lastPrune = 0;
+
+	// Sender and thread sessions pile up in busy groups, drop the ones nobody
+	// used for a while. Conversation sessions stay: removing one would bring
+	// back the original chat ID.
+	const prune = (time: number) => {
+		if (time - lastPrune < PRUNE_INTERVAL) return;
+		lastPrune = time;
+
+		const retention = Math.max(idleTimeoutMs, SCOPED_SESSION_RETENTION);
+		for (const [key, session] of Object.entries(store.data.sessions)) {
+			if (key.includes("/") && time - session.lastActiveAt > retention) {
+				delete store.data.sessions[key];
+			}
+		}
+	};
+
+	const start = (key: SessionKey) => {
+		const time = now();
+		const session: SessionRecord = { startedAt: time, lastActiveAt: time };
+		store.data.sessions[storeKey(key)] = session;
+		store.save();
+		return toChatSession(key, session);
+	};
+
+	return {
+		touch: (key) => {
+			const time = now();
+			prune(time);
+
+			const session = store.data.sessions[storeKey(key)];
+			// scoped sessions have no legacy chat ID to fall back to
+			if (!session && key.scopeId) return start(key);
+
+			const lastActiveAt = session?.lastActiveAt;
+			if (
+				idleTimeoutMs > 0 &&
+				lastActiveAt !== undefined &&
+				time - lastActiveAt > idleTimeoutMs
+			) {
+				logger.info("Agent session expired", {
+					conversationId: key.conversationId,
+					scopeId: key.scopeId,
+					idleMs: time - lastActiveAt,
+				});
+				return start(key);
+			}
+
+			const current: SessionRecord = { ...session, lastActiveAt: time };
+			store.data.sessions[storeKey(key)] = current;
+			store.save();
+			return toChatSession(key, current);
+		},
+		reset: start,
+		flush: store.flush,
+	};
+};
+
+/**
+ * First message of the reply chain `message` belongs to
+ *
+ * Follows `Reply.reference` back as far as the local database knows the
+ * messages; a message that is not a reply is its own root.
+ */
+export const findThreadRoot = (
+	client: Pick<AgentClient, "conversations">,
+	message: AgentMessage,
+	maxDepth = 50,
+) => {
+	let current = message;
+	for (let depth = 0; depth < maxDepth; depth++) {
+		if (!current.contentType?.sameAs(ContentTypeReply)) break;
+
+		const { reference } = current.content as Reply;
+		const parent = client.conversations.getMessageById(reference);
+		// the parent predates this installation, it still names the thread
+		if (!parent) return reference;
+		current = parent;
+	}
+	return current.id;
+};
+
+/**
+ * Which session a message belongs to
+ */
+export const resolveSessionKey = ({
+	client,
+	message,
+	kind,
+	groupScope,
+}: {
+	client: Pick<AgentClient, "conversations">;
+	message: AgentMessage;
+	kind: ConversationKind;
+	groupScope: SessionScope;
+}): SessionKey => {
+	const conversationId = message.conversationId;
+	if (kind !== "group" || groupScope === "conversation") {
+		return { conversationId };
+	}
+	return {
+		conversationId,
+		scopeId:
+			groupScope === "sender"
+				? message.senderInboxId
+				: findThreadRoot(client, message),
+	};
+};
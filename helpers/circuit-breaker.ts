@@ -0,0 +1,91 @@
+import { logger } from "@/helpers/logger";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerStatus {
+	state: CircuitState;
+	consecutiveFailures: number;
+	// When the breaker last opened (ms), undefined while closed
+	openedAt?: number;
+}
+
+export interface CircuitBreaker {
+	// Whether a request may go out, in half-open state only one probe does
+	tryAcquire: () => boolean;
+	recordSuccess: () => void;
+	recordFailure: () => void;
+	status: () => CircuitBreakerStatus;
+}
+
+/**
+ * Stop calling a dependency that keeps failing
+ *
+ * After `failureThreshold` failures in a row the breaker opens and requests
+ * are refused. Once `resetTimeoutMs` passed, one probe request is let through
+ * (half-open): success closes the breaker, failure opens it again.
+ */
+export const createCircuitBreaker = ({
+	name,
+	failureThreshold,
+	resetTimeoutMs,
+	now = Date.now,
+}: {
+	// Shows up in logs
+	name: string;
+	failureThreshold: number;
+	resetTimeoutMs: number;
+	now?: () => number;
+}): CircuitBreaker => {
+	let state: CircuitState = "closed";
+	let consecutiveFailures = 0;
+	let openedAt: number | undefined;
+	let probeInFlight = false;
+
+	const transition = (next: CircuitState) => {
+		if (state === next) return;
+		logger.info("Circuit breaker state changed", {
+			breaker: name,
+			from: state,
+			to: next,
+			consecutiveFailures,
+		});
+		state = next;
+	};
+
+	const open = () => {
+		openedAt = now();
+		probeInFlight = false;
+		transition("open");
+	};
+
+	return {
+		tryAcquire: () => {
+			if (state === "closed") return true;
+
+			if (state === "open") {
+				if (openedAt !== undefined && now() - openedAt < resetTimeoutMs) {
+					return false;
+				}
+				transition("half_open");
+			}
+
+			// half-open: let a single probe through
+			if (probeInFlight) return false;
+			probeInFlight = true;
+			return true;
+		},
+		recordSuccess: () => {
+			consecutiveFailures = 0;
+			openedAt = undefined;
+			probeInFlight = false;
+			transition("closed");
+		},
+		recordFailure: () => {
+			consecutiveFailures++;
+			if (state === "half_open" || consecutiveFailures >= failureThreshold) {
+				open();
+			}
+		},
+		status: () => ({ state, consecutiveFailures, openedAt }),
+	};
+};
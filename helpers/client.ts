@@ -1,11 +1,12 @@
 import { getRandomValues } from "node:crypto";
 import fs from "node:fs";
-import type { DecodedMessage } from "@xmtp/node-sdk";
 import { type Client, IdentifierKind, type Signer } from "@xmtp/node-sdk";
 import { fromString, toString as uint8arraysToString } from "uint8arrays";
 import { createWalletClient, http, toBytes } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { sepolia } from "viem/chains";
+import { logger } from "@/helpers/logger";
+import type { AgentMessage } from "@/helpers/message-handler";
 import type { ClientContentTypes } from "@/server";
 
 interface User {
@@ -67,7 +68,11 @@ export const getEncryptionKeyFromHex = (hex: string) => {
 	return fromString(hex, "hex");
 };
 
-export const getDbPath = (env: string, suffix: string = "xmtp") => {
+/**
+ * Get the directory that holds the XMTP database and the agent's local stores
+ * @returns The directory path, created if missing
+ */
+export const getDataDirectory = () => {
 	//Checks if the environment is a Railway deployment
 	const volumePath = process.env.RAILWAY_VOLUME_MOUNT_PATH || ".data/xmtp";
 
@@ -84,20 +89,53 @@ export const getDbPath = (env: string, suffix: string = "xmtp") => {
 			fs.mkdirSync(volumePath, { recursive: true });
 		}
 	} catch (error) {
-		console.error(`Failed to create directory ${volumePath}:`, error);
+		logger.error("Failed to create data directory", {
+			path: volumePath,
+			error,
+		});
 		// Fallback to a temporary directory
 		const fallbackPath = "/tmp/xmtp";
 		if (!fs.existsSync(fallbackPath)) {
 			fs.mkdirSync(fallbackPath, { recursive: true });
 		}
-		const dbPath = `${fallbackPath}/${env}-${suffix}.db3`;
-		return dbPath;
+		return fallbackPath;
 	}
 
-	const dbPath = `${volumePath}/${env}-${suffix}.db3`;
+	return volumePath;
+};
+
+export const getDbPath = (env: string, suffix: string = "xmtp") => {
+	const dbPath = `${getDataDirectory()}/${env}-${suffix}.db3`;
 	return dbPath;
 };
 
+/**
+ * Get the path of a local JSON store kept next to the XMTP database
+ * Stores share the database lifetime: `bun wipe-db` removes them too. Token
+ * usage and agent sessions are kept apart, see `getUsagePath` and
+ * `getSessionsPath`.
+ */
+export const getStorePath = (env: string, name: string) => {
+	return `${getDataDirectory()}/${env}-${name}.store.json`;
+};
+
+/**
+ * Get the path of the token usage store
+ * Not a `.store.json`, so usage outlives `bun wipe-db` and restarts.
+ */
+export const getUsagePath = (env: string) => {
+	return `${getDataDirectory()}/${env}-token-usage.json`;
+};
+
+/**
+ * Get the path of the agent session store
+ * Not a `.store.json`, so sessions and `/reset` outlive `bun wipe-db` and
+ * restarts.
+ */
+export const getSessionsPath = (env: string) => {
+	return `${getDataDirectory()}/${env}-chat-sessions.json`;
+};
+
 export const logAgentDetails = async (
 	clients: Client<ClientContentTypes> | Client<ClientContentTypes>[],
 ): Promise<void> => {
@@ -123,14 +161,14 @@ export const logAgentDetails = async (
 		const conversations = await firstClient.conversations.list();
 		const installations = await firstClient.preferences.inboxState();
 
-		console.log(`
-    ✓ XMTP Client:
-    • Address: ${address}
-    • Installations: ${installations.installations.length}
-    • Conversations: ${conversations.length}
-    • InboxId: ${inboxId}
-    • Networks: ${environments}
-    ${urls.map((url) => `• URL: ${url}`).join("\n")}`);
+		logger.info("XMTP client ready", {
+			address,
+			installations: installations.installations.length,
+			conversations: conversations.length,
+			inboxId,
+			networks: environments,
+			urls,
+		});
 	}
 };
 
@@ -144,7 +182,7 @@ export const logAgentDetails = async (
  * @param message - The decoded XMTP message
  * @returns The message content as a string
  */
-export function extractMessageContent(message: DecodedMessage): string {
+export function extractMessageContent(message: AgentMessage): string {
 	// Handle transaction reference messages
 	if (message.contentType?.typeId === "transactionReference") {
 		const txContent = message.content;
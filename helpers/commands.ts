@@ -0,0 +1,149 @@
+import type { AgentBackendName } from "@/helpers/agent-backend";
+import type { AgentRouter } from "@/helpers/agent-router";
+import type { ChatSessions, SessionKey } from "@/helpers/chat-sessions";
+
+export interface CommandContext {
+	// Text after the command name
+	args: string;
+	kind: "dm" | "group";
+	conversationId: string;
+	senderInboxId: string;
+	// Addresses linked to the sender's inbox, the first one is the primary
+	senderAddresses: string[];
+	// Every registered command, for /help
+	commands: Command[];
+	// Agent session the message belongs to
+	sessionKey: SessionKey;
+}
+
+/**
+ * A command answered locally, without an agent call
+ */
+export interface Command {
+	// Lowercase, without the slash
+	name: string;
+	// One line shown by /help
+	description: string;
+	// Returns the reply
+	run: (context: CommandContext) => string | Promise<string>;
+}
+
+export interface CommandRegistry {
+	commands: Command[];
+	// The command a message starts with, optionally after one of `mentions`
+	parse: (
+		text: string,
+		mentions?: string[],
+	) => { command: Command; args: string } | undefined;
+}
+
+/**
+ * The message without the agent mention it starts with, e.g. "@bitte /help"
+ * in groups becomes "/help"
+ */
+export const stripMention = (text: string, mentions: string[]) => {
+	const rest = text.trim();
+	// longest mention first so "@bitte" does not eat half of "@bitte.base.eth"
+	const mention = [...mentions]
+		.sort((a, b) => b.length - a.length)
+		.find((tag) => rest.toLowerCase().startsWith(tag.toLowerCase()));
+	return mention ? rest.slice(mention.length).replace(/^[\s,:]+/, "") : rest;
+};
+
+export const createCommandRegistry = (commands: Command[]): CommandRegistry => {
+	const byName = new Map(commands.map((command) => [command.name, command]));
+
+	return {
+		commands,
+		parse: (text, mentions = []) => {
+			const rest = stripMention(text, mentions);
+			const match = /^\/(\S+)\s*([\s\S]*)$/.exec(rest);
+			const command = match && byName.get(match[1].toLowerCase());
+			// unknown commands go to the agent like any other message
+			if (!match || !command) return undefined;
+			return { command, args: match[2].trim() };
+		},
+	};
+};
+
+export interface AgentStatus {
+	// XMTP stream connected and conversations synced
+	connected: boolean;
+	backend: AgentBackendName;
+	// False while the circuit breaker keeps the agent from being called
+	agentAvailable: boolean;
+}
+
+/**
+ * /help, /reset, /status, /whoami and /agent
+ */
+export const createBuiltinCommands = ({
+	sessions,
+	getStatus,
+	route,
+}: {
+	sessions: Pick<ChatSessions, "reset">;
+	getStatus: () => AgentStatus;
+	route?: AgentRouter;
+}): Command[] => [
+	{
+		name: "help",
+		description: "Show what I can do",
+		run: ({ commands }) =>
+			[
+				"👋 I'm the Bitte agent. Ask me about tokens, prices, swaps or your wallet.",
+				"",
+				"Commands:",
+				...commands.map(({ name, description }) => `/${name} - ${description}`),
+			].join("\n"),
+	},
+	{
+		name: "reset",
+		description: "Start a new conversation with the agent",
+		run: ({ sessionKey }) => {
+			sessions.reset(sessionKey);
+			return "🧹 Started over. The agent won't remember earlier messages.";
+		},
+	},
+	{
+		name: "status",
+		description: "Check whether I'm connected and the agent is up",
+		run: () => {
+			const { connected, backend, agentAvailable } = getStatus();
+			return [
+				connected ? "✅ Connected to XMTP" : "⚠️ Reconnecting to XMTP",
+				agentAvailable
+					? `✅ Agent available (${backend})`
+					: `⚠️ Agent unavailable (${backend}), try again in a minute`,
+			].join("\n");
+		},
+	},
+	{
+		name: "whoami",
+		description: "Show the address I see for you",
+		run: ({ senderInboxId, senderAddresses: [address, ...linked] }) =>
+			[
+				address ? `Address: ${address}` : "No address linked to your inbox",
+				...(linked.length > 0 ? [`Also linked: ${linked.join(", ")}`] : []),
+				`Inbox ID: ${senderInboxId}`,
+			].join("\n"),
+	},
+	{
+		name: "agent",
+		description: "Show which agent answers here",
+		run: ({ kind, conversationId, senderAddresses }) => {
+			const { backend } = getStatus();
+			// keyword and prefix rules depend on the message, this is the route
+			// for anything that matches none of them
+			const agentRoute = route?.({
+				kind,
+				conversationId,
+				senderAddresses,
+				message: "",
+			});
+			return agentRoute
+				? `🤖 ${agentRoute.agentId} (${backend}, route ${agentRoute.name})`
+				: `🤖 ${backend} backend`;
+		},
+	},
+];
@@ -1,6 +1,21 @@
 import type { XmtpEnv } from "@xmtp/node-sdk";
 import { config } from "dotenv";
 import { privateKeyToAddress } from "viem/accounts";
+import { isAgentBackendName } from "./agent-backend";
+import { parseRpcUrls } from "./chains";
+import { isSessionScope } from "./chat-sessions";
+import {
+	type ConsentPolicy,
+	isConsentConversationTypes,
+	isConsentMode,
+	parseConsentList,
+} from "./consent-policy";
+import type { HistoryOptions } from "./conversation-history";
+import { configureLogger, isLogLevel, type LogFormat } from "./logger";
+import { isUrlPolicy, type OutboundFormatOptions } from "./outbound-format";
+import { parseRateLimit, type RateLimits } from "./rate-limiter";
+import { isSignerPolicy } from "./signer-policy";
+import type { UsageQuotas } from "./usage-tracker";
 
 // Configuration
 export const {
@@ -12,9 +27,33 @@ export const {
 	BITTE_API_KEY,
 	CHAT_API_URL,
 	IS_PRODUCTION,
+	AGENT_BACKEND,
+	OPENAI_BASE_URL,
+	OPENAI_MODEL,
+	MOCK_BACKEND_FILE,
+	AGENT_ROUTES_FILE,
 	AGENT_CHAT_ID,
+	MAX_CONCURRENT_CONVERSATIONS,
+	HTTP_PORT,
+	LOG_LEVEL,
+	WELCOME_MESSAGE_DM,
+	WELCOME_MESSAGE_GROUP,
+	WELCOME_FORWARD_FIRST_MESSAGE,
+	CONSENT_POLICY,
+	RATE_LIMITS,
+	RATE_LIMIT_MESSAGE,
+	HISTORY_OPTIONS,
+	OUTBOUND_FORMAT,
+	USAGE_QUOTAS,
+	QUOTA_MESSAGE,
+	SESSION_GROUP_SCOPE,
+	SESSION_IDLE_TIMEOUT,
+	RPC_URLS,
+	SIMULATE_TRANSACTIONS,
+	SIGNER_POLICY,
 } = (() => {
-	config();
+	// dotenv logs to stdout otherwise, scripts like export-usage print data there
+	config({ quiet: true });
 
 	const {
 		WALLET_KEY,
@@ -24,15 +63,36 @@ export const {
 		BITTE_API_KEY,
 		OPENAI_API_KEY,
 		NODE_ENV,
+		LOG_FORMAT,
 	} = process.env;
 
+	// debug, info, warn or error
+	const LOG_LEVEL = isLogLevel(process.env.LOG_LEVEL)
+		? process.env.LOG_LEVEL
+		: "info";
+	configureLogger({
+		level: LOG_LEVEL,
+		format: LOG_FORMAT === "pretty" ? "pretty" : ("json" satisfies LogFormat),
+		secrets: [WALLET_KEY, ENCRYPTION_KEY, BITTE_API_KEY, OPENAI_API_KEY],
+	});
+
+	// bitte (default), openai or mock
+	const AGENT_BACKEND = isAgentBackendName(process.env.AGENT_BACKEND)
+		? process.env.AGENT_BACKEND
+		: "bitte";
+
 	if (
 		!WALLET_KEY ||
 		!ENCRYPTION_KEY ||
 		!XMTP_ENV ||
-		!BITTE_AGENT_ID ||
-		!BITTE_API_KEY ||
-		!OPENAI_API_KEY
+		// Bitte credentials are only needed to talk to the Bitte runtime
+		(AGENT_BACKEND === "bitte" && (!BITTE_AGENT_ID || !BITTE_API_KEY)) ||
+		// Bitte reactions use OpenAI, the openai backend only needs a key for
+		// the OpenAI API itself, local servers usually take none
+		(AGENT_BACKEND === "bitte" && !OPENAI_API_KEY) ||
+		(AGENT_BACKEND === "openai" &&
+			!process.env.OPENAI_BASE_URL &&
+			!OPENAI_API_KEY)
 	) {
 		throw new Error("ENV variables not configured");
 	}
@@ -43,6 +103,44 @@ export const {
 		-4,
 	)}`;
 
+	// enter agent address here
+	const AGENT_CHAT_ID = IS_PRODUCTION ? "bitte.base.eth" : agentMentionId;
+
+	// who may start a conversation with the agent
+	const CONSENT_POLICY: ConsentPolicy = {
+		mode: isConsentMode(process.env.CONSENT_MODE)
+			? process.env.CONSENT_MODE
+			: "manual",
+		allowlist: parseConsentList(process.env.CONSENT_ALLOWLIST),
+		denylist: parseConsentList(process.env.CONSENT_DENYLIST),
+		conversationTypes: isConsentConversationTypes(
+			process.env.CONSENT_CONVERSATION_TYPES,
+		)
+			? process.env.CONSENT_CONVERSATION_TYPES
+			: "all",
+	};
+
+	// <messages>/<seconds> per sender and per conversation, "off" to disable
+	const RATE_LIMITS: RateLimits = {
+		dm: {
+			sender: parseRateLimit(process.env.RATE_LIMIT_DM_SENDER, {
+				limit: 10,
+				windowMs: 60_000,
+			}),
+			conversation: parseRateLimit(process.env.RATE_LIMIT_DM_CONVERSATION),
+		},
+		group: {
+			sender: parseRateLimit(process.env.RATE_LIMIT_GROUP_SENDER, {
+				limit: 5,
+				windowMs: 60_000,
+			}),
+			conversation: parseRateLimit(process.env.RATE_LIMIT_GROUP_CONVERSATION, {
+				limit: 20,
+				windowMs: 60_000,
+			}),
+		},
+	};
+
 	return {
 		CHAT_API_URL:
 			process.env.BITTE_CHAT_API_URL ||
@@ -50,11 +148,89 @@ export const {
 		WALLET_KEY,
 		ENCRYPTION_KEY,
 		XMTP_ENV: XMTP_ENV as XmtpEnv,
-		BITTE_API_KEY,
-		BITTE_AGENT_ID,
-		OPENAI_API_KEY,
+		BITTE_API_KEY: BITTE_API_KEY ?? "",
+		BITTE_AGENT_ID: BITTE_AGENT_ID ?? "",
+		OPENAI_API_KEY: OPENAI_API_KEY ?? "",
 		IS_PRODUCTION,
-		// enter agent address here
-		AGENT_CHAT_ID: IS_PRODUCTION ? "bitte.base.eth" : agentMentionId,
+		AGENT_BACKEND,
+		// OpenAI-compatible server for the openai backend, e.g. http://localhost:11434/v1
+		OPENAI_BASE_URL: process.env.OPENAI_BASE_URL || undefined,
+		OPENAI_MODEL: process.env.OPENAI_MODEL || "gpt-4.1-mini",
+		// JSON rules that send messages to different Bitte agents
+		AGENT_ROUTES_FILE: process.env.AGENT_ROUTES_FILE || undefined,
+		// canned responses for the mock backend
+		MOCK_BACKEND_FILE:
+			process.env.MOCK_BACKEND_FILE || "mock-responses.example.json",
+		AGENT_CHAT_ID,
+		// how many conversations may be processed at the same time
+		MAX_CONCURRENT_CONVERSATIONS:
+			Number(process.env.MAX_CONCURRENT_CONVERSATIONS) || 4,
+		// health, readiness and metrics endpoints (Railway sets PORT)
+		HTTP_PORT: Number(process.env.PORT) || 8080,
+		LOG_LEVEL,
+		// sent once per conversation, set to an empty string to disable
+		WELCOME_MESSAGE_DM:
+			process.env.WELCOME_MESSAGE_DM ??
+			"👋 Hi! I'm the Bitte agent. Ask me about tokens, prices, swaps or your wallet and I'll help you out.",
+		WELCOME_MESSAGE_GROUP:
+			process.env.WELCOME_MESSAGE_GROUP ??
+			`👋 Hi all! I'm the Bitte agent. Mention me with @${AGENT_CHAT_ID} or reply to one of my messages and I'll help out.`,
+		// answer the first message after the welcome, "false" to only welcome
+		WELCOME_FORWARD_FIRST_MESSAGE:
+			process.env.WELCOME_FORWARD_FIRST_MESSAGE !== "false",
+		CONSENT_POLICY,
+		RATE_LIMITS,
+		// earlier messages sent to the agent with each new one
+		HISTORY_OPTIONS: {
+			maxMessages: Number(process.env.HISTORY_MAX_MESSAGES) || 0,
+			maxChars: Number(process.env.HISTORY_MAX_CHARS) || 4000,
+		} satisfies HistoryOptions,
+		// sent once when a sender or conversation goes over its limit
+		RATE_LIMIT_MESSAGE:
+			process.env.RATE_LIMIT_MESSAGE ??
+			"⏳ You're sending messages a bit fast. Give me a minute and try again.",
+		// plain text, links and length of agent answers
+		OUTBOUND_FORMAT: {
+			urls: isUrlPolicy(process.env.OUTBOUND_URLS)
+				? process.env.OUTBOUND_URLS
+				: "keep",
+			allowedDomains: (process.env.OUTBOUND_ALLOWED_DOMAINS ?? "")
+				.split(",")
+				.map((domain) => domain.trim().toLowerCase())
+				.filter(Boolean),
+			maxLength: Number(process.env.OUTBOUND_MAX_LENGTH) || 2000,
+			maxParts: Number(process.env.OUTBOUND_MAX_PARTS) || 3,
+		} satisfies OutboundFormatOptions,
+		// agent completion tokens per day and month, unset or 0 for no limit
+		USAGE_QUOTAS: {
+			sender: {
+				daily: Number(process.env.QUOTA_SENDER_DAILY_TOKENS) || 0,
+				monthly: Number(process.env.QUOTA_SENDER_MONTHLY_TOKENS) || 0,
+			},
+			conversation: {
+				daily: Number(process.env.QUOTA_CONVERSATION_DAILY_TOKENS) || 0,
+				monthly: Number(process.env.QUOTA_CONVERSATION_MONTHLY_TOKENS) || 0,
+			},
+		} satisfies UsageQuotas,
+		// sent once per period when a quota is used up
+		QUOTA_MESSAGE:
+			process.env.QUOTA_MESSAGE ??
+			"🙏 You've reached your usage limit for now. Please come back a bit later.",
+		// what shares an agent session in groups: conversation, sender or thread
+		SESSION_GROUP_SCOPE: isSessionScope(process.env.SESSION_GROUP_SCOPE)
+			? process.env.SESSION_GROUP_SCOPE
+			: "conversation",
+		// idle time before the next message starts a new session, 0 for never
+		SESSION_IDLE_TIMEOUT:
+			(Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES) || 0) * 60_000,
+		// <chainId>=<url> pairs, chains without one use viem's public RPC
+		RPC_URLS: parseRpcUrls(process.env.RPC_URLS),
+		// eth_call and estimateGas every transaction before it goes to the wallet
+		SIMULATE_TRANSACTIONS: process.env.SIMULATE_TRANSACTIONS === "true",
+		// sign requests for a wallet not linked to the sender: reject, warn or
+		// rewrite
+		SIGNER_POLICY: isSignerPolicy(process.env.SIGNER_ADDRESS_POLICY)
+			? process.env.SIGNER_ADDRESS_POLICY
+			: "rewrite",
 	};
 })();
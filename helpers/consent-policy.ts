@@ -0,0 +1,228 @@
+import {
+	type Consent,
+	ConsentEntityType,
+	ConsentState,
+	Dm,
+	type Group,
+	type InboxState,
+} from "@xmtp/node-sdk";
+import { logger } from "@/helpers/logger";
+
+export type ConsentMode = "manual" | "auto" | "allowlist";
+export type ConsentConversationTypes = "all" | "dm" | "group";
+export type ConsentDecision = "allow" | "deny" | "ignore";
+
+export interface ConsentPolicy {
+	// manual: leave consent to the user, auto: allow everyone,
+	// allowlist: allow only senders on the allowlist
+	mode: ConsentMode;
+	// Addresses or inbox IDs, lowercased
+	allowlist: string[];
+	denylist: string[];
+	// Conversation types the policy may allow, others are left as they are
+	conversationTypes: ConsentConversationTypes;
+}
+
+export const isConsentMode = (value: unknown): value is ConsentMode =>
+	value === "manual" || value === "auto" || value === "allowlist";
+
+export const isConsentConversationTypes = (
+	value: unknown,
+): value is ConsentConversationTypes =>
+	value === "all" || value === "dm" || value === "group";
+
+/**
+ * Parse a comma separated list of addresses or inbox IDs
+ */
+export const parseConsentList = (value?: string) =>
+	(value ?? "")
+		.split(",")
+		.map((entry) => entry.trim().toLowerCase())
+		.filter(Boolean);
+
+/**
+ * Decide what to do with a conversation started by `identifiers`
+ *
+ * The denylist always wins. Conversations of a type the policy does not
+ * cover, and senders the policy does not allow, are ignored: their consent
+ * stays Unknown so the user can still allow them by hand.
+ *
+ * @param identifiers - The sender's inbox ID and linked addresses
+ */
+export const evaluateConsentPolicy = (
+	policy: ConsentPolicy,
+	{ kind, identifiers }: { kind: "dm" | "group"; identifiers: string[] },
+): ConsentDecision => {
+	const ids = identifiers.map((id) => id.toLowerCase());
+
+	if (ids.some((id) => policy.denylist.includes(id))) return "deny";
+	if (policy.conversationTypes !== "all" && policy.conversationTypes !== kind) {
+		return "ignore";
+	}
+	if (policy.mode === "auto") return "allow";
+	if (
+		policy.mode === "allowlist" &&
+		ids.some((id) => policy.allowlist.includes(id))
+	) {
+		return "allow";
+	}
+	return "ignore";
+};
+
+/**
+ * The parts of the XMTP `Client` the consent manager uses.
+ */
+export interface ConsentClient {
+	conversations: {
+		list: (options?: {
+			consentStates?: ConsentState[];
+		}) => Promise<(Dm<unknown> | Group<unknown>)[]>;
+	};
+	preferences: {
+		setConsentStates: (consentStates: Consent[]) => Promise<void>;
+		getConsentState: (
+			entityType: ConsentEntityType,
+			entity: string,
+		) => Promise<ConsentState>;
+		inboxStateFromInboxIds: (
+			inboxIds: string[],
+		) => Promise<Pick<InboxState, "identifiers">[]>;
+	};
+}
+
+export interface ConsentManager {
+	// Apply the policy to a conversation with Unknown consent
+	applyToConversation: (
+		conversation: Dm<unknown> | Group<unknown>,
+	) => Promise<ConsentDecision>;
+	// Apply the policy to every Unknown conversation in the local db,
+	// returns the conversations that were allowed
+	applyToPending: () => Promise<(Dm<unknown> | Group<unknown>)[]>;
+	// Whether messages from this inbox must be ignored
+	isBlocked: (inboxId: string) => Promise<boolean>;
+}
+
+/**
+ * Apply a consent policy through `client.preferences`
+ *
+ * Explicit decisions (Allowed or Denied) are never overridden. Denied senders
+ * are recorded at the inbox level so they stay blocked in every conversation,
+ * including ones that are already allowed.
+ */
+export const createConsentManager = ({
+	client,
+	policy,
+}: {
+	client: ConsentClient;
+	policy: ConsentPolicy;
+}): ConsentManager => {
+	// Inbox ID to its linked addresses, they rarely change
+	const identifierCache = new Map<string, Promise<string[]>>();
+
+	const getIdentifiers = (inboxId: string) => {
+		let identifiers = identifierCache.get(inboxId);
+		if (!identifiers) {
+			identifiers = client.preferences
+				.inboxStateFromInboxIds([inboxId])
+				.then((states) => [
+					inboxId,
+					...(states[0]?.identifiers ?? []).map(({ identifier }) => identifier),
+				])
+				.catch((error) => {
+					identifierCache.delete(inboxId);
+					throw error;
+				});
+			identifierCache.set(inboxId, identifiers);
+		}
+		return identifiers;
+	};
+
+	const applyToConversation = async (
+		conversation: Dm<unknown> | Group<unknown>,
+	): Promise<ConsentDecision> => {
+		if (conversation.consentState !== ConsentState.Unknown) return "ignore";
+
+		const isDm = conversation instanceof Dm;
+		// A DM is started by the peer, a group invite by whoever added us
+		const initiatorInboxId = isDm
+			? conversation.peerInboxId
+			: conversation.addedByInboxId;
+
+		const identifiers = await getIdentifiers(initiatorInboxId);
+		const decision = evaluateConsentPolicy(policy, {
+			kind: isDm ? "dm" : "group",
+			identifiers,
+		});
+
+		const log = logger.child({
+			conversationId: conversation.id,
+			initiatorInboxId,
+		});
+
+		if (decision === "allow") {
+			await client.preferences.setConsentStates([
+				{
+					entityType: ConsentEntityType.GroupId,
+					entity: conversation.id,
+					state: ConsentState.Allowed,
+				},
+			]);
+			log.info("Consent policy allowed conversation", { mode: policy.mode });
+		} else if (decision === "deny") {
+			await client.preferences.setConsentStates([
+				{
+					entityType: ConsentEntityType.GroupId,
+					entity: conversation.id,
+					state: ConsentState.Denied,
+				},
+				{
+					entityType: ConsentEntityType.InboxId,
+					entity: initiatorInboxId,
+					state: ConsentState.Denied,
+				},
+			]);
+			log.info("Consent policy denied conversation and blocked sender");
+		} else {
+			log.debug("Consent policy left conversation unknown");
+		}
+
+		return decision;
+	};
+
+	const applyToPending = async () => {
+		if (policy.mode === "manual" && policy.denylist.length === 0) return [];
+
+		const pending = await client.conversations.list({
+			consentStates: [ConsentState.Unknown],
+		});
+
+		const allowed: (Dm<unknown> | Group<unknown>)[] = [];
+		for (const conversation of pending) {
+			try {
+				if ((await applyToConversation(conversation)) === "allow") {
+					allowed.push(conversation);
+				}
+			} catch (error) {
+				logger.error("Failed to apply consent policy", {
+					conversationId: conversation.id,
+					error,
+				});
+			}
+		}
+		return allowed;
+	};
+
+	const isBlocked = async (inboxId: string) => {
+		const state = await client.preferences.getConsentState(
+			ConsentEntityType.InboxId,
+			inboxId,
+		);
+		if (state === ConsentState.Denied) return true;
+		if (policy.denylist.length === 0) return false;
+
+		const identifiers = await getIdentifiers(inboxId);
+		return identifiers.some((id) => policy.denylist.includes(id.toLowerCase()));
+	};
+
+	return { applyToConversation, applyToPending, isBlocked };
+};
@@ -0,0 +1,132 @@
+import { SortDirection } from "@xmtp/node-sdk";
+import { extractMessageContent } from "@/helpers/client";
+import type {
+	AgentClient,
+	AgentConversation,
+	AgentMessage,
+} from "@/helpers/message-handler";
+
+export interface HistoryMessage {
+	role: "user" | "assistant";
+	content: string;
+}
+
+export interface HistoryOptions {
+	// Most recent messages to include, 0 disables history
+	maxMessages: number;
+	// Total characters across included messages (roughly 4 per token)
+	maxChars: number;
+}
+
+// Content types that carry conversation text, reactions and the like are left out
+const TEXT_TYPE_IDS = ["text", "reply", "transactionReference"];
+
+// Pages fetched at most while looking for text turns
+const MAX_PAGES = 5;
+
+const shortAddress = (address: string) =>
+	`${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Recent messages of a conversation as chat history for the agent
+ *
+ * Messages sent by the agent become `assistant` turns, everything else `user`
+ * turns. In groups user turns are prefixed with the speaker's address so the
+ * agent can tell people apart. The newest messages are kept when the budget
+ * runs out.
+ *
+ * @returns History in chronological order, without `before` itself
+ */
+export const buildConversationHistory = async ({
+	client,
+	conversation,
+	before,
+	since,
+	isGroup,
+	options,
+}: {
+	client: Pick<AgentClient, "inboxId" | "preferences">;
+	conversation: AgentConversation;
+	// The message being answered, history ends right before it
+	before: AgentMessage;
+	// Start of the agent session (ms), older messages were reset away
+	since?: number;
+	isGroup: boolean;
+	options: HistoryOptions;
+}): Promise<HistoryMessage[]> => {
+	if (options.maxMessages <= 0) return [];
+
+	// Reactions and the like take up pages too, keep paging back until enough
+	// text turns are collected or the conversation runs out
+	const recent: AgentMessage[] = [];
+	let sentBeforeNs = before.sentAtNs;
+	for (let page = 0; page < MAX_PAGES; page++) {
+		const pageSize = options.maxMessages * 2;
+		const messages = (
+			await conversation.messages({
+				sentBeforeNs,
+				sentAfterNs: since ? since * 1_000_000 : undefined,
+				limit: pageSize,
+				direction: SortDirection.Descending,
+			})
+		)
+			// newest first, whatever order the store returned
+			.sort((a, b) => b.sentAtNs - a.sentAtNs);
+
+		recent.push(
+			...messages.filter(
+				(message) =>
+					message.id !== before.id &&
+					TEXT_TYPE_IDS.includes(message.contentType?.typeId ?? ""),
+			),
+		);
+		const oldest = messages.at(-1);
+		if (
+			recent.length >= options.maxMessages ||
+			messages.length < pageSize ||
+			!oldest
+		) {
+			break;
+		}
+		sentBeforeNs = oldest.sentAtNs;
+	}
+	recent.splice(options.maxMessages);
+
+	const speakers = new Map<string, string>();
+	if (isGroup) {
+		const senderIds = [
+			...new Set(
+				recent
+					.map((message) => message.senderInboxId)
+					.filter((inboxId) => inboxId !== client.inboxId),
+			),
+		];
+		if (senderIds.length > 0) {
+			const states = await client.preferences.inboxStateFromInboxIds(senderIds);
+			for (const inboxId of senderIds) {
+				const state = states.find((state) => state.inboxId === inboxId);
+				const address = state?.identifiers?.[0]?.identifier;
+				speakers.set(inboxId, address ? shortAddress(address) : inboxId);
+			}
+		}
+	}
+
+	const history: HistoryMessage[] = [];
+	let chars = 0;
+
+	for (const message of recent) {
+		const text = extractMessageContent(message);
+		if (!text) continue;
+
+		const isAgent = message.senderInboxId === client.inboxId;
+		const speaker = speakers.get(message.senderInboxId);
+		const content = !isAgent && speaker ? `[${speaker}]: ${text}` : text;
+
+		chars += content.length;
+		if (chars > options.maxChars) break;
+
+		history.unshift({ role: isAgent ? "assistant" : "user", content });
+	}
+
+	return history;
+};
@@ -0,0 +1,184 @@
+/**
+ * Per-conversation work queues
+ *
+ * Messages from the same conversation run strictly in arrival order, while
+ * different conversations run concurrently up to a global cap. A slow agent
+ * call in one chat therefore never holds up replies in another.
+ */
+
+import { logger } from "@/helpers/logger";
+
+type Task = () => Promise<void>;
+
+interface QueuedTask {
+	run: Task;
+	enqueuedAt: number;
+	resolve: () => void;
+}
+
+export interface SchedulerStats {
+	// Conversations with a task currently running
+	active: number;
+	// Tasks waiting across all conversations (excluding running ones)
+	queued: number;
+	// Waiting tasks per conversation ID, only non-empty queues
+	queueDepths: Record<string, number>;
+	// Time between enqueue and start, over every task started so far
+	wait: {
+		count: number;
+		lastMs: number;
+		maxMs: number;
+		avgMs: number;
+	};
+}
+
+export interface ConversationScheduler {
+	enqueue: (conversationId: string, task: Task) => Promise<void>;
+	stats: () => SchedulerStats;
+	// Stop accepting work and drop tasks that have not started, returns how many
+	close: () => number;
+	// Resolves once no task is running or waiting
+	idle: () => Promise<void>;
+}
+
+export const createConversationScheduler = ({
+	maxConcurrent,
+	slowWaitMs = 10_000,
+}: {
+	maxConcurrent: number;
+	// Log a warning when a task waited longer than this before starting
+	slowWaitMs?: number;
+}): ConversationScheduler => {
+	const queues = new Map<string, QueuedTask[]>();
+	const running = new Set<string>();
+	// Conversations with pending work that are waiting for a free slot, FIFO
+	const ready: string[] = [];
+	const idleWaiters: (() => void)[] = [];
+	let closed = false;
+
+	const wait = { count: 0, totalMs: 0, lastMs: 0, maxMs: 0 };
+
+	const recordWait = (conversationId: string, waitMs: number) => {
+		wait.count++;
+		wait.totalMs += waitMs;
+		wait.lastMs = waitMs;
+		wait.maxMs = Math.max(wait.maxMs, waitMs);
+
+		if (waitMs >= slowWaitMs) {
+			logger.warn("Message waited long before processing", {
+				conversationId,
+				waitMs,
+				active: running.size,
+				waitingConversations: ready.length,
+			});
+		}
+	};
+
+	const runNext = async (conversationId: string) => {
+		const queue = queues.get(conversationId);
+		const next = queue?.shift();
+		if (!next) return;
+
+		recordWait(conversationId, Date.now() - next.enqueuedAt);
+
+		try {
+			await next.run();
+		} catch (error) {
+			logger.error("Task failed", { conversationId, error });
+		} finally {
+			next.resolve();
+		}
+	};
+
+	const pump = () => {
+		while (running.size < maxConcurrent && ready.length > 0) {
+			const conversationId = ready.shift() as string;
+			running.add(conversationId);
+
+			void runNext(conversationId).finally(() => {
+				running.delete(conversationId);
+				if (queues.get(conversationId)?.length) {
+					ready.push(conversationId);
+				} else {
+					queues.delete(conversationId);
+				}
+				pump();
+				notifyIdle();
+			});
+		}
+	};
+
+	const isIdle = () => running.size === 0 && ready.length === 0;
+
+	const notifyIdle = () => {
+		if (!isIdle()) return;
+		for (const resolve of idleWaiters.splice(0)) resolve();
+	};
+
+	const enqueue = (conversationId: string, run: Task) =>
+		new Promise<void>((resolve) => {
+			if (closed) {
+				logger.warn("Scheduler closed, dropping task", { conversationId });
+				resolve();
+				return;
+			}
+
+			const queue = queues.get(conversationId) ?? [];
+			queue.push({ run, enqueuedAt: Date.now(), resolve });
+			queues.set(conversationId, queue);
+
+			if (!running.has(conversationId) && !ready.includes(conversationId)) {
+				ready.push(conversationId);
+			}
+			pump();
+		});
+
+	const stats = (): SchedulerStats => {
+		const queueDepths: Record<string, number> = {};
+		let queued = 0;
+		for (const [conversationId, queue] of queues) {
+			if (queue.length === 0) continue;
+			queueDepths[conversationId] = queue.length;
+			queued += queue.length;
+		}
+
+		return {
+			active: running.size,
+			queued,
+			queueDepths,
+			wait: {
+				count: wait.count,
+				lastMs: wait.lastMs,
+				maxMs: wait.maxMs,
+				avgMs: wait.count ? Math.round(wait.totalMs / wait.count) : 0,
+			},
+		};
+	};
+
+	const close = () => {
+		closed = true;
+		ready.length = 0;
+
+		let dropped = 0;
+		for (const [conversationId, queue] of queues) {
+			for (const task of queue.splice(0)) {
+				task.resolve();
+				dropped++;
+			}
+			if (!running.has(conversationId)) queues.delete(conversationId);
+		}
+		notifyIdle();
+		return dropped;
+	};
+
+	const idle = () =>
+		new Promise<void>((resolve) => {
+			if (isIdle()) {
+				resolve();
+				return;
+			}
+			idleWaiters.push(resolve);
+		});
+
+	return { enqueue, stats, close, idle };
+};
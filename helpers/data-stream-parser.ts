@@ -0,0 +1,297 @@
+/**
+ * Incremental parser for the AI SDK data-stream protocol used by Bitte
+ *
+ * Every line is `<code>:<json>`. The response body is read chunk by chunk and
+ * parts are emitted as soon as a full line is available, so callers can act
+ * on tool results before the completion is finished. Parts are validated and
+ * typed by the AI SDK's own `parseDataStreamPart`.
+ */
+
+import { type JSONValue, parseDataStreamPart } from "ai";
+import type { CompletionResponse, ToolCall } from "@/helpers/message-handler";
+
+/**
+ * One stream part, discriminated by `type`:
+ *
+ * - `text` (0), `data` (2), `error` (3), `message_annotations` (8)
+ * - `tool_call` (9), `tool_result` (a), `tool_call_streaming_start` (b),
+ *   `tool_call_delta` (c)
+ * - `finish_message` (d), `finish_step` (e), `start_step` (f)
+ * - `reasoning` (g), `source` (h), `redacted_reasoning` (i),
+ *   `reasoning_signature` (j), `file` (k)
+ */
+export type DataStreamEvent = ReturnType<typeof parseDataStreamPart>;
+
+export type DataStreamSource = Extract<
+	DataStreamEvent,
+	{ type: "source" }
+>["value"];
+
+// Codes `parseDataStreamPart` knows, see `DataStreamEvent`
+const KNOWN_CODES = new Set("0 2 3 8 9 a b c d e f g h i j k".split(" "));
+
+// `1:` tool calls of older Bitte responses, anything else on `1:` is skipped
+const parseLegacyToolCall = (payload: string): DataStreamEvent | undefined => {
+	const value = JSON.parse(payload);
+	if (
+		typeof value?.toolCallId !== "string" ||
+		typeof value.toolName !== "string"
+	) {
+		return undefined;
+	}
+	return {
+		type: "tool_call",
+		value: {
+			toolCallId: value.toolCallId,
+			toolName: value.toolName,
+			args: value.args ?? {},
+		},
+	};
+};
+
+/**
+ * Parse one complete line
+ *
+ * `1:` lines, tool calls from older Bitte responses, become `tool_call` parts.
+ * Other unknown codes are skipped like empty lines, so new part types don't
+ * break older listeners.
+ *
+ * @returns Undefined for empty lines and unknown codes
+ * @throws when the payload does not match its code
+ */
+export const parseDataStreamLine = (
+	line: string,
+): DataStreamEvent | undefined => {
+	const trimmed = line.trim();
+	if (!trimmed) return undefined;
+
+	const separator = trimmed.indexOf(":");
+	const code = trimmed.slice(0, separator);
+	if (code === "1") return parseLegacyToolCall(trimmed.slice(2));
+	// lines without a separator are invalid, `parseDataStreamPart` says so
+	if (separator !== -1 && !KNOWN_CODES.has(code)) return undefined;
+	return parseDataStreamPart(trimmed);
+};
+
+/**
+ * Split text chunks into lines, keeping a line that is cut across chunks
+ * until the rest of it arrives
+ */
+export const createLineSplitter = () => {
+	let buffer = "";
+
+	return {
+		// Complete lines in `chunk`, together with what was buffered before it
+		push: (chunk: string) => {
+			buffer += chunk;
+			const lines = buffer.split("\n");
+			buffer = lines.pop() ?? "";
+			return lines;
+		},
+		// Whatever is left once the stream ended
+		end: () => {
+			const rest = buffer;
+			buffer = "";
+			return rest ? [rest] : [];
+		},
+	};
+};
+
+/**
+ * Read a data-stream body and yield parts as lines complete
+ *
+ * Lines that fail to parse are passed to `onInvalidLine` and skipped.
+ */
+export async function* readDataStream(
+	body: ReadableStream<Uint8Array>,
+	onInvalidLine?: (line: string, error: unknown) => void,
+): AsyncGenerator<DataStreamEvent> {
+	const decoder = new TextDecoder();
+	const splitter = createLineSplitter();
+
+	const parse = (line: string) => {
+		try {
+			return parseDataStreamLine(line);
+		} catch (error) {
+			onInvalidLine?.(line, error);
+			return undefined;
+		}
+	};
+
+	const reader = body.getReader();
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			// `stream: true` keeps multi-byte characters split across chunks intact
+			const text = done
+				? decoder.decode()
+				: decoder.decode(value, { stream: true });
+			const lines = done
+				? [...splitter.push(text), ...splitter.end()]
+				: splitter.push(text);
+
+			for (const line of lines) {
+				const event = parse(line);
+				if (event) yield event;
+			}
+			if (done) return;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+// Token counts of a finish part, or null when missing or not numbers: the AI
+// SDK sends NaN (null in JSON) when the provider doesn't report usage
+const finiteUsage = (
+	usage: { promptTokens: number; completionTokens: number } | undefined,
+): CompletionResponse["usage"] =>
+	usage &&
+	Number.isFinite(usage.promptTokens) &&
+	Number.isFinite(usage.completionTokens)
+		? {
+				promptTokens: usage.promptTokens,
+				completionTokens: usage.completionTokens,
+			}
+		: null;
+
+/**
+ * Fold parts into a completion, the shape `sendToAgent` returns
+ *
+ * Tool calls are keyed by `toolCallId`: streamed arguments (`b:`/`c:`), the
+ * full call (`9:`) and the result (`a:`) all end up on one entry, in the
+ * order the calls started. `3:` errors mark the completion as failed.
+ */
+export const createCompletionCollector = () => {
+	let messageId = "";
+	let content = "";
+	let reasoning = "";
+	let finishReason = "";
+	// The message finish has the turn's total, step usages add up to it
+	let messageUsage: CompletionResponse["usage"] = null;
+	let stepUsage: CompletionResponse["usage"] = null;
+	let isContinued = false;
+	const errors: string[] = [];
+	const data: JSONValue[] = [];
+	const annotations: JSONValue[] = [];
+	const sources: DataStreamSource[] = [];
+	const toolCalls = new Map<string, ToolCall>();
+	// Argument text of calls that are still streaming
+	const argsText = new Map<string, string>();
+
+	const getToolCall = (toolCallId: string) => {
+		let toolCall = toolCalls.get(toolCallId);
+		if (!toolCall) {
+			toolCall = { toolCallId, toolName: "", args: {} };
+			toolCalls.set(toolCallId, toolCall);
+		}
+		return toolCall;
+	};
+
+	/**
+	 * Add one part
+	 *
+	 * @returns The paired tool call when the part was its result
+	 */
+	const add = (event: DataStreamEvent): ToolCall | undefined => {
+		switch (event.type) {
+			case "start_step":
+				messageId = event.value.messageId;
+				break;
+			case "text":
+				content += event.value;
+				break;
+			case "reasoning":
+				reasoning += event.value;
+				break;
+			case "error":
+				errors.push(event.value);
+				break;
+			case "data":
+				data.push(...event.value);
+				break;
+			case "message_annotations":
+				annotations.push(...event.value);
+				break;
+			case "source":
+				sources.push(event.value);
+				break;
+			case "tool_call_streaming_start":
+				getToolCall(event.value.toolCallId).toolName = event.value.toolName;
+				argsText.set(event.value.toolCallId, "");
+				break;
+			case "tool_call_delta": {
+				const { toolCallId, argsTextDelta } = event.value;
+				argsText.set(
+					toolCallId,
+					(argsText.get(toolCallId) ?? "") + argsTextDelta,
+				);
+				break;
+			}
+			case "tool_call": {
+				const toolCall = getToolCall(event.value.toolCallId);
+				toolCall.toolName = event.value.toolName;
+				toolCall.args = event.value.args;
+				argsText.delete(event.value.toolCallId);
+				break;
+			}
+			case "tool_result": {
+				const { toolCallId, result, ...rest } = event.value as Omit<
+					ToolCall,
+					"toolName" | "args"
+				>;
+				const toolCall = getToolCall(toolCallId);
+				toolCall.result = result;
+				if (rest.ui) toolCall.ui = rest.ui;
+				return toolCall;
+			}
+			case "finish_step": {
+				// The step finish comes first, the message finish only fills gaps
+				finishReason = event.value.finishReason;
+				isContinued = event.value.isContinued;
+				const usage = finiteUsage(event.value.usage);
+				if (usage) {
+					stepUsage = {
+						promptTokens: (stepUsage?.promptTokens ?? 0) + usage.promptTokens,
+						completionTokens:
+							(stepUsage?.completionTokens ?? 0) + usage.completionTokens,
+					};
+				}
+				break;
+			}
+			case "finish_message":
+				if (!finishReason) finishReason = event.value.finishReason;
+				messageUsage = finiteUsage(event.value.usage);
+				break;
+			// redacted reasoning, reasoning signatures and files are not used
+		}
+		return undefined;
+	};
+
+	const result = () => {
+		// Calls whose `9:` part never came, use the streamed arguments
+		for (const [toolCallId, text] of argsText) {
+			try {
+				getToolCall(toolCallId).args = JSON.parse(text);
+			} catch {
+				// Incomplete arguments, keep the empty object
+			}
+		}
+
+		return {
+			messageId,
+			content,
+			finishReason,
+			usage: messageUsage ?? stepUsage,
+			isContinued,
+			toolCalls: [...toolCalls.values()],
+			...(reasoning ? { reasoning } : {}),
+			...(data.length ? { data } : {}),
+			...(annotations.length ? { annotations } : {}),
+			...(sources.length ? { sources } : {}),
+			...(errors.length ? { isError: true, error: errors.join("\n") } : {}),
+		} satisfies CompletionResponse;
+	};
+
+	return { add, result };
+};
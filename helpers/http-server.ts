@@ -0,0 +1,76 @@
+import { createServer, type Server } from "node:http";
+import { logger } from "@/helpers/logger";
+import { renderMetrics } from "@/helpers/metrics";
+
+export type ReadinessChecks = Record<string, boolean>;
+
+/**
+ * Start the health, readiness and metrics HTTP server
+ *
+ * - `/healthz`: the process is alive and the event loop responds
+ * - `/readyz`: 200 only when every readiness check passes, 503 otherwise
+ * - `/metrics`: Prometheus text format
+ *
+ * @param port - Port to listen on
+ * @param getReadiness - Current readiness checks, all must be true to be ready
+ * @param onError - Called when the server fails, e.g. the port is taken
+ */
+export const startHttpServer = ({
+	port,
+	getReadiness,
+	onError,
+}: {
+	port: number;
+	getReadiness: () => ReadinessChecks;
+	onError: (error: Error) => void;
+}): Server => {
+	const server = createServer((req, res) => {
+		const path = req.url?.split("?")[0];
+
+		if (req.method !== "GET") {
+			res.writeHead(405).end();
+			return;
+		}
+
+		switch (path) {
+			case "/healthz": {
+				res
+					.writeHead(200, { "Content-Type": "application/json" })
+					.end(JSON.stringify({ status: "ok", uptime: process.uptime() }));
+				return;
+			}
+			case "/readyz": {
+				const checks = getReadiness();
+				const ready = Object.values(checks).every(Boolean);
+				res
+					.writeHead(ready ? 200 : 503, { "Content-Type": "application/json" })
+					.end(
+						JSON.stringify({ status: ready ? "ready" : "not_ready", checks }),
+					);
+				return;
+			}
+			case "/metrics": {
+				res
+					.writeHead(200, {
+						"Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+					})
+					.end(renderMetrics());
+				return;
+			}
+			default: {
+				res.writeHead(404).end();
+			}
+		}
+	});
+
+	server.on("error", (error) => {
+		logger.error("HTTP server error", { port, error });
+		onError(error);
+	});
+
+	server.listen(port, () => {
+		logger.info("HTTP server listening", { port });
+	});
+
+	return server;
+};
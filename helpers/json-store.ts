@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { logger } from "@/helpers/logger";
+
+export interface JsonStore<T> {
+	// Mutable state, call `save()` after changing it
+	data: T;
+	// Schedule a write, coalescing bursts of changes
+	save: () => void;
+	// Write pending changes now
+	flush: () => Promise<void>;
+}
+
+/**
+ * Small JSON file store for local agent state
+ *
+ * The file is read once at creation. Writes are debounced and go through a
+ * temporary file plus rename, so a crash never leaves a half-written store.
+ *
+ * @param filePath - Where to keep the file, see `getStorePath`
+ * @param initial - State to start from when the file is missing or unreadable
+ * @param saveDelayMs - How long to coalesce changes before writing
+ */
+export const createJsonStore = <T extends object>(
+	filePath: string,
+	initial: T,
+	saveDelayMs = 1000,
+): JsonStore<T> => {
+	let data = initial;
+
+	try {
+		if (fs.existsSync(filePath)) {
+			data = { ...initial, ...JSON.parse(fs.readFileSync(filePath, "utf-8")) };
+		}
+	} catch (error) {
+		logger.error("Failed to read store, starting empty", { filePath, error });
+	}
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let writing: Promise<void> = Promise.resolve();
+
+	const write = () => {
+		const tmpPath = `${filePath}.tmp`;
+		writing = writing
+			.then(async () => {
+				await writeFile(tmpPath, JSON.stringify(store.data));
+				await rename(tmpPath, filePath);
+			})
+			.catch((error) => {
+				logger.error("Failed to write store", { filePath, error });
+			});
+		return writing;
+	};
+
+	const store: JsonStore<T> = {
+		data,
+		save: () => {
+			if (timer) return;
+			timer = setTimeout(() => {
+				timer = undefined;
+				void write();
+			}, saveDelayMs);
+			timer.unref();
+		},
+		flush: () => {
+			if (timer) {
+				clearTimeout(timer);
+				timer = undefined;
+			}
+			return write();
+		},
+	};
+
+	return store;
+};
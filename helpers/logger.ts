@@ -0,0 +1,164 @@
+/**
+ * Structured logger
+ *
+ * One JSON object per line with a level, timestamp, message and correlation
+ * fields (conversationId, messageId, senderInboxId, chatId, ...). Values are
+ * redacted before they are written: secret-looking keys, any configured
+ * secret value, and long calldata.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "json" | "pretty";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+	debug: (message: string, fields?: LogFields) => void;
+	info: (message: string, fields?: LogFields) => void;
+	warn: (message: string, fields?: LogFields) => void;
+	error: (message: string, fields?: LogFields) => void;
+	// Logger that adds `fields` to every entry, e.g. correlation IDs
+	child: (fields: LogFields) => Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+	debug: 10,
+	info: 20,
+	warn: 30,
+	error: 40,
+};
+
+export const isLogLevel = (value: unknown): value is LogLevel =>
+	typeof value === "string" && value in LEVELS;
+
+const REDACTED = "[REDACTED]";
+// Keys whose values are never logged
+const SECRET_KEY_PATTERN =
+	/(private_?key|wallet_?key|encryption_?key|api_?key|secret|password|authorization|bearer|mnemonic)/i;
+// Keys that carry calldata, only a short prefix is kept
+const CALLDATA_KEY_PATTERN = /^(data|calldata|input)$/i;
+const CALLDATA_PREFIX_LENGTH = 10; // 0x + 4-byte selector
+const MAX_DEPTH = 8;
+
+const settings: {
+	level: LogLevel;
+	format: LogFormat;
+	secrets: string[];
+} = {
+	level: "info",
+	format: "json",
+	secrets: [],
+};
+
+/**
+ * Set the minimum level, output format and secret values to scrub
+ * Called from `helpers/config.ts` once the environment is loaded.
+ */
+export const configureLogger = ({
+	level,
+	format,
+	secrets,
+}: {
+	level?: LogLevel;
+	format?: LogFormat;
+	secrets?: (string | undefined)[];
+}) => {
+	if (level) settings.level = level;
+	if (format) settings.format = format;
+	if (secrets) {
+		// Ignore short values, they would scrub unrelated text
+		settings.secrets = secrets.filter(
+			(secret): secret is string => !!secret && secret.length >= 8,
+		);
+	}
+};
+
+const redactString = (value: string) => {
+	let redacted = value;
+	for (const secret of settings.secrets) {
+		if (redacted.includes(secret)) {
+			redacted = redacted.split(secret).join(REDACTED);
+		}
+	}
+	return redacted;
+};
+
+const truncateCalldata = (value: string) => {
+	if (!/^0x[0-9a-f]*$/i.test(value)) return redactString(value);
+	if (value.length <= CALLDATA_PREFIX_LENGTH) return value;
+	const bytes = (value.length - 2) / 2;
+	return `${value.slice(0, CALLDATA_PREFIX_LENGTH)}…[${bytes} bytes]`;
+};
+
+const serializeError = (error: Error) => ({
+	name: error.name,
+	message: redactString(error.message),
+	stack: error.stack ? redactString(error.stack) : undefined,
+	...(error.cause ? { cause: redact(error.cause, 1) } : {}),
+});
+
+const redact = (value: unknown, depth = 0, key?: string): unknown => {
+	if (key && SECRET_KEY_PATTERN.test(key)) return REDACTED;
+	if (typeof value === "string") {
+		return key && CALLDATA_KEY_PATTERN.test(key)
+			? truncateCalldata(value)
+			: redactString(value);
+	}
+	if (typeof value === "bigint") return value.toString();
+	if (value instanceof Error) return serializeError(value);
+	if (value instanceof Date) return value.toISOString();
+	if (value === null || typeof value !== "object") return value;
+	if (depth >= MAX_DEPTH) return "[Truncated]";
+
+	if (Array.isArray(value)) {
+		return value.map((item) => redact(item, depth + 1, key));
+	}
+
+	return Object.fromEntries(
+		Object.entries(value).map(([entryKey, entryValue]) => [
+			entryKey,
+			redact(entryValue, depth + 1, entryKey),
+		]),
+	);
+};
+
+const write = (
+	level: LogLevel,
+	message: string,
+	context: LogFields,
+	fields?: LogFields,
+) => {
+	if (LEVELS[level] < LEVELS[settings.level]) return;
+
+	const entry = redact({
+		...context,
+		...fields,
+	}) as LogFields;
+
+	const output =
+		settings.format === "pretty"
+			? `${new Date().toISOString()} ${level.toUpperCase()} ${redactString(message)}${
+					Object.keys(entry).length ? ` ${JSON.stringify(entry)}` : ""
+				}`
+			: JSON.stringify({
+					level,
+					time: new Date().toISOString(),
+					msg: redactString(message),
+					...entry,
+				});
+
+	if (level === "error" || level === "warn") {
+		process.stderr.write(`${output}\n`);
+	} else {
+		process.stdout.write(`${output}\n`);
+	}
+};
+
+const createLogger = (context: LogFields = {}): Logger => ({
+	debug: (message, fields) => write("debug", message, context, fields),
+	info: (message, fields) => write("info", message, context, fields),
+	warn: (message, fields) => write("warn", message, context, fields),
+	error: (message, fields) => write("error", message, context, fields),
+	child: (fields) => createLogger({ ...context, ...fields }),
+});
+
+export const logger = createLogger();
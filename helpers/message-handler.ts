@@ -0,0 +1,1003 @@
+import { ContentTypeGroupUpdated } from "@xmtp/content-type-group-updated";
+import {
+	ContentTypeReaction,
+	type Reaction,
+} from "@xmtp/content-type-reaction";
+import { ContentTypeReply, type Reply } from "@xmtp/content-type-reply";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { ContentTypeTransactionReference } from "@xmtp/content-type-transaction-reference";
+import {
+	ContentTypeWalletSendCalls,
+	type WalletSendCallsParams,
+} from "@xmtp/content-type-wallet-send-calls";
+import {
+	type DecodedMessage,
+	Dm,
+	Group,
+	type Identifier,
+	IdentifierKind,
+	type InboxState,
+	type ListMessagesOptions,
+} from "@xmtp/node-sdk";
+import type { JSONValue } from "ai";
+import type { AgentBackend } from "@/helpers/agent-backend";
+import type { AgentRouter } from "@/helpers/agent-router";
+import {
+	type ChatSessions,
+	resolveSessionKey,
+	type SessionScope,
+} from "@/helpers/chat-sessions";
+import { extractMessageContent } from "@/helpers/client";
+import { type CommandRegistry, stripMention } from "@/helpers/commands";
+import {
+	buildConversationHistory,
+	type HistoryOptions,
+} from "@/helpers/conversation-history";
+import type { DataStreamSource } from "@/helpers/data-stream-parser";
+import { type Logger, logger } from "@/helpers/logger";
+import { metrics } from "@/helpers/metrics";
+import {
+	formatOutbound,
+	type OutboundFormatOptions,
+} from "@/helpers/outbound-format";
+import type { MessageRateLimiter } from "@/helpers/rate-limiter";
+import {
+	describeReceiptOutcome,
+	parseTransactionReference,
+	type ReceiptOutcome,
+	type ReceiptWatcher,
+} from "@/helpers/receipt-watcher";
+import {
+	describeSignRequest,
+	findSignature,
+	isSignatureRequest,
+	type SignatureRequests,
+	verifySignRequest,
+} from "@/helpers/signature-requests";
+import {
+	checkSigner,
+	describeSignerMismatch,
+	type SignerPolicy,
+} from "@/helpers/signer-policy";
+import {
+	extractSignerAddress,
+	handleEvmTransaction,
+	validateEvmTxResponse,
+} from "@/helpers/transaction-helpers";
+import {
+	type SimulationResult,
+	withGasEstimates,
+} from "@/helpers/transaction-simulator";
+import type {
+	TokenUsage,
+	UsageSource,
+	UsageTracker,
+} from "@/helpers/usage-tracker";
+import type { WelcomeTracker } from "@/helpers/welcome-tracker";
+import type { ClientContentTypes, SignRequestData } from "@/server";
+
+// Type definitions for tool calls
+interface ToolResult {
+	data?: { evmSignRequest: SignRequestData } | { swapArgs: SwapArgs };
+	error?: string;
+}
+
+/**
+ * A `9:` tool call paired with its `a:` result by `toolCallId`
+ */
+export interface ToolCall {
+	toolCallId: string;
+	// Empty when the result arrived without its call
+	toolName: string;
+	args: Record<string, unknown>;
+	// Missing until the result arrives
+	result?: ToolResult;
+	ui?: Record<string, unknown>;
+}
+
+interface SwapArgs {
+	sellToken: string;
+	buyToken: string;
+}
+
+export interface CompletionResponse {
+	// Bitte message ID, from the `f:` stream part
+	messageId?: string;
+	toolCalls?: ToolCall[];
+	content: string;
+	raw?: string;
+	finishReason?: string;
+	usage?: {
+		promptTokens: number;
+		completionTokens: number;
+	} | null;
+	isContinued?: boolean;
+	isError?: boolean;
+	// Message of the `3:` part when the runtime reported an error
+	error?: string;
+	// `g:` reasoning text
+	reasoning?: string;
+	// `2:` custom data and `8:` message annotations
+	data?: JSONValue[];
+	annotations?: JSONValue[];
+	// `h:` sources cited by the model
+	sources?: DataStreamSource[];
+}
+
+export type ConversationKind = "dm" | "group" | "sync";
+
+// The codec content type class, as opposed to the binding's plain object
+export type ContentTypeId = NonNullable<DecodedMessage["contentType"]>;
+
+/**
+ * The parts of a decoded XMTP message the pipeline reads.
+ * Real `DecodedMessage` instances satisfy it, and so do plain test fakes.
+ */
+export type AgentMessage = Pick<
+	DecodedMessage,
+	| "id"
+	| "content"
+	| "contentType"
+	| "conversationId"
+	| "senderInboxId"
+	| "sentAt"
+	| "sentAtNs"
+	| "fallback"
+	| "parameters"
+>;
+
+/**
+ * The parts of an XMTP `Dm` / `Group` the pipeline uses.
+ */
+export interface AgentConversation {
+	id: string;
+	send: (
+		content: ClientContentTypes,
+		contentType?: ContentTypeId,
+	) => Promise<string>;
+	messages: (options?: ListMessagesOptions) => Promise<AgentMessage[]>;
+}
+
+/**
+ * The parts of the XMTP `Client` the pipeline uses.
+ */
+export interface AgentClient {
+	inboxId: string;
+	signer?: { getIdentifier: () => Identifier | Promise<Identifier> };
+	conversations: {
+		getConversationById: (id: string) => Promise<AgentConversation | undefined>;
+		// Looks up the local db only, no network round trip
+		getMessageById: (id: string) => AgentMessage | undefined;
+	};
+	preferences: {
+		inboxStateFromInboxIds: (
+			inboxIds: string[],
+		) => Promise<Pick<InboxState, "inboxId" | "identifiers">[]>;
+	};
+}
+
+/**
+ * The LLM-backed calls the pipeline makes.
+ */
+export interface AgentService {
+	sendToAgent: AgentBackend["sendToAgent"];
+	generateReaction: (params: {
+		messageContent: string;
+		reference: string;
+		referenceInboxId?: string;
+		// Tokens spent on the reaction, when the backend knows them
+		onUsage?: (usage: TokenUsage) => void;
+	}) => Promise<Reaction>;
+}
+
+export interface WelcomeOptions {
+	tracker: WelcomeTracker;
+	// Empty or missing text disables the welcome for that conversation type
+	dmMessage?: string;
+	groupMessage?: string;
+	// Also send the first message to the agent instead of only welcoming
+	forwardFirstMessage: boolean;
+}
+
+export interface RateLimitOptions {
+	limiter: Pick<MessageRateLimiter, "check">;
+	// Sent once when a sender or conversation goes over its limit
+	message: string;
+}
+
+export interface UsageOptions {
+	tracker: Pick<UsageTracker, "record" | "checkQuota">;
+	// Sent once per period when a sender or conversation runs out of tokens
+	quotaMessage: string;
+}
+
+export interface SessionOptions {
+	manager: Pick<ChatSessions, "touch">;
+	// Per conversation, per sender or per reply thread in groups
+	groupScope: SessionScope;
+}
+
+export interface MessageHandlerDeps {
+	client: AgentClient;
+	agent: AgentService;
+	// Mention handle the agent answers to in groups, e.g. bitte.base.eth
+	agentChatId: string;
+	welcome?: WelcomeOptions;
+	// Defaults to `instanceof` checks against the SDK's Dm / Group classes
+	getConversationKind?: (conversation: AgentConversation) => ConversationKind;
+	// Senders whose messages are always ignored, e.g. denied by consent policy
+	isSenderBlocked?: (inboxId: string) => Promise<boolean>;
+	rateLimit?: RateLimitOptions;
+	// Earlier messages sent along with the current one, off when missing
+	history?: HistoryOptions;
+	// Picks the agent for each message, the backend's default when missing
+	route?: AgentRouter;
+	// Plain-text and length rules for agent answers, sent as is when missing
+	format?: OutboundFormatOptions;
+	// Token accounting and quotas, off when missing
+	usage?: UsageOptions;
+	// Slash commands answered without the agent
+	commands?: CommandRegistry;
+	// Agent sessions, one `xmtp-<conversationId>` per conversation when missing
+	sessions?: SessionOptions;
+	// Signature requests waiting for the user, signing is refused when missing
+	signatures?: SignatureRequests;
+	// Follows transactions users send references for, off when missing
+	receipts?: Pick<ReceiptWatcher, "watch">;
+	// Queues work that comes back to a conversation later, e.g. a settled
+	// transaction, behind its messages. Runs it right away when missing
+	schedule?: (
+		conversationId: string,
+		task: () => Promise<void>,
+	) => Promise<void>;
+	// Checks transactions before they reach the wallet, sent unchecked when
+	// missing
+	simulateTransaction?: (
+		params: WalletSendCallsParams,
+	) => Promise<SimulationResult>;
+	// Requests for an address not linked to the sender's inbox, `rewrite`
+	// when missing
+	signerPolicy?: SignerPolicy;
+}
+
+export type SkipReason =
+	| "invalid"
+	| "own_message"
+	| "blocked"
+	| "reaction"
+	| "conversation_not_found"
+	| "empty"
+	| "group_update"
+	| "unsupported_conversation"
+	| "not_addressed"
+	| "rate_limited"
+	| "quota_exceeded";
+
+export type MessageOutcome =
+	| { status: "handled" }
+	| { status: "skipped"; reason: SkipReason }
+	| { status: "failed"; error: string };
+
+export type MessageHandler = (message: AgentMessage) => Promise<MessageOutcome>;
+
+const skipped = (reason: SkipReason): MessageOutcome => ({
+	status: "skipped",
+	reason,
+});
+
+export const getXmtpConversationKind = (
+	conversation: AgentConversation,
+): ConversationKind => {
+	if (conversation instanceof Dm) return "dm";
+	if (conversation instanceof Group) return "group";
+	return "sync";
+};
+
+/**
+ * Create the per-message pipeline: filtering, reaction, agent call,
+ * tool-call handling and reply.
+ *
+ * Errors are logged and swallowed so one bad message never ends the stream.
+ */
+export const createMessageHandler = ({
+	client,
+	agent,
+	agentChatId,
+	welcome,
+	getConversationKind = getXmtpConversationKind,
+	isSenderBlocked,
+	rateLimit,
+	history,
+	route,
+	format,
+	usage,
+	commands,
+	sessions,
+	signatures,
+	receipts,
+	schedule = (_conversationId, task) => task(),
+	simulateTransaction,
+	signerPolicy = "rewrite",
+}: MessageHandlerDeps): MessageHandler => {
+	const clientInboxId = client.inboxId;
+	let clientEvmAddress: Promise<string | undefined> | undefined;
+
+	const getClientEvmAddress = () => {
+		clientEvmAddress ??= Promise.resolve(client.signer?.getIdentifier()).then(
+			(identifier) => identifier?.identifier,
+		);
+		return clientEvmAddress;
+	};
+
+	return async (message) => {
+		try {
+			// skip if the message is not valid
+			if (!message || !message.contentType) return skipped("invalid");
+
+			const senderInboxId = message.senderInboxId;
+			const log = logger.child({
+				conversationId: message.conversationId,
+				messageId: message.id,
+				senderInboxId,
+			});
+
+			// skip if the message is from the agent
+			if (senderInboxId === clientInboxId) return skipped("own_message");
+
+			// skip if the sender is blocked
+			if (await isSenderBlocked?.(senderInboxId)) return skipped("blocked");
+
+			// skip if the message is a reaction
+			if (message.contentType.sameAs(ContentTypeReaction)) {
+				return skipped("reaction");
+			}
+
+			const conversation = await client.conversations.getConversationById(
+				message.conversationId,
+			);
+			// skip if the conversation is not found
+			if (!conversation) {
+				log.error("Conversation not found");
+				return skipped("conversation_not_found");
+			}
+
+			// skip if message content is not valid
+			const messageContent = extractMessageContent(message);
+
+			if (!messageContent || messageContent === "") return skipped("empty");
+
+			const kind = getConversationKind(conversation);
+			const isDm = kind === "dm";
+			const isGroup = kind === "group";
+			const isSync = kind === "sync";
+
+			log.debug("Received message", {
+				isDm,
+				isGroup,
+				isSync,
+				content: messageContent,
+			});
+
+			// Skip group update messages
+			if (message.contentType.sameAs(ContentTypeGroupUpdated)) {
+				return skipped("group_update");
+			}
+
+			// only DM and Group messages are handled
+			if (!isDm && !isGroup) return skipped("unsupported_conversation");
+
+			// Helper functions for group chat filtering
+			const isReplyToAgent = (message: AgentMessage) => {
+				if (!message.contentType?.sameAs(ContentTypeReply)) return false;
+				const replyContent = message.content as Reply;
+				const referenced = client.conversations.getMessageById(
+					replyContent.reference,
+				);
+				return referenced?.senderInboxId === clientInboxId;
+			};
+
+			const clientAddress = await getClientEvmAddress();
+			const clientTags = [`@${clientAddress}`, `@${agentChatId}`, "@bitte"];
+			const isTaggingClient = (messageContent: string) => {
+				return clientTags.some((tag) =>
+					messageContent.toLowerCase().includes(tag.toLowerCase()),
+				);
+			};
+
+			// Skip group messages with no mention or reply to client
+			if (
+				isGroup &&
+				!isTaggingClient(messageContent) &&
+				!isReplyToAgent(message)
+			) {
+				return skipped("not_addressed");
+			}
+
+			// Greet the conversation once, on the first message addressed to the agent
+			const welcomeText = isGroup ? welcome?.groupMessage : welcome?.dmMessage;
+			if (
+				welcome &&
+				welcomeText &&
+				!welcome.tracker.hasWelcomed(conversation.id)
+			) {
+				const hasAgentReplied = await hasAgentSentBefore(
+					conversation,
+					clientInboxId,
+				);
+				welcome.tracker.markWelcomed(conversation.id);
+
+				if (!hasAgentReplied) {
+					await conversation.send(welcomeText, ContentTypeText);
+					log.info("Sent welcome message");
+					if (!welcome.forwardFirstMessage) return { status: "handled" };
+				}
+			}
+
+			// Command replies and notices, threaded in groups
+			const sendNotice = async (text: string) => {
+				if (isGroup) {
+					const reply: Reply = {
+						reference: message.id,
+						contentType: ContentTypeText,
+						content: text,
+					};
+					await conversation.send(reply, ContentTypeReply);
+				} else {
+					await conversation.send(text, ContentTypeText);
+				}
+			};
+
+			const sessionKey = resolveSessionKey({
+				client,
+				message,
+				kind,
+				groupScope: sessions?.groupScope ?? "conversation",
+			});
+
+			// Answer slash commands locally
+			const parsedCommand = commands?.parse(messageContent, clientTags);
+			if (parsedCommand) {
+				const { command, args } = parsedCommand;
+				const replyText = await command.run({
+					args,
+					kind,
+					conversationId: conversation.id,
+					senderInboxId,
+					senderAddresses: await getLinkedAddresses(client, senderInboxId),
+					commands: commands?.commands ?? [],
+					sessionKey,
+				});
+				await sendNotice(replyText);
+				metrics.commandsHandled.inc({ command: command.name });
+				log.info("Handled command", { command: command.name });
+				return { status: "handled" };
+			}
+
+			// Every message past this point costs LLM calls
+			const limited = rateLimit?.limiter.check({
+				kind,
+				senderInboxId,
+				conversationId: conversation.id,
+			});
+			if (limited?.status === "throttled") {
+				metrics.messagesRateLimited.inc({ kind, scope: limited.scope });
+				// only the first drop is worth a warning, the rest are quiet
+				(limited.notify ? log.warn : log.debug)("Rate limited", {
+					scope: limited.scope,
+					retryAfterMs: limited.retryAfterMs,
+				});
+				if (limited.notify && rateLimit?.message) {
+					await sendNotice(rateLimit.message);
+				}
+				return skipped("rate_limited");
+			}
+
+			// Get sender's EVM addresses, the first one stands for the sender
+			const senderAddresses = await getLinkedAddresses(client, senderInboxId);
+			const addressFromInboxId = senderAddresses[0] as string;
+
+			const usageSubject = {
+				senderAddress: addressFromInboxId ?? senderInboxId,
+				conversationId: conversation.id,
+			};
+			const recordUsage = (source: UsageSource, tokens: TokenUsage) => {
+				if (!usage) return;
+				usage.tracker.record({ ...usageSubject, source, usage: tokens });
+				metrics.llmTokens.inc({ source, type: "prompt" }, tokens.promptTokens);
+				metrics.llmTokens.inc(
+					{ source, type: "completion" },
+					tokens.completionTokens,
+				);
+			};
+
+			const quota = usage?.tracker.checkQuota(usageSubject);
+			if (usage && quota?.exceeded) {
+				metrics.messagesOverQuota.inc({
+					scope: quota.scope,
+					period: quota.period,
+				});
+				(quota.notify ? log.warn : log.debug)("Token quota used up", {
+					scope: quota.scope,
+					period: quota.period,
+					used: quota.used,
+					limit: quota.limit,
+				});
+
+				if (quota.notify && usage.quotaMessage) {
+					await sendNotice(usage.quotaMessage);
+				}
+				return skipped("quota_exceeded");
+			}
+
+			// A signature for a request we sent goes to the agent once verified
+			let agentMessage = messageContent;
+			const signatureKey = `${conversation.id}:${senderInboxId}`;
+			const pendingSignature = signatures?.get(signatureKey);
+			const signature = pendingSignature && findSignature(messageContent);
+			if (signatures && pendingSignature && signature) {
+				const { request } = pendingSignature;
+				if (!isSignatureRequest(request)) {
+					signatures.remove(signatureKey);
+				} else {
+					const verified = await verifySignRequest(request, signature).catch(
+						(error) => {
+							log.error("Failed to verify signature", { error });
+							return false;
+						},
+					);
+					metrics.signaturesReceived.inc({
+						method: request.method,
+						outcome: verified ? "valid" : "invalid",
+					});
+					if (!verified) {
+						log.warn("Signature did not verify", { method: request.method });
+						await sendNotice(
+							"❌ That signature doesn't match the request. Check that you signed with the right wallet and try again.",
+						);
+						return { status: "handled" };
+					}
+
+					signatures.remove(signatureKey);
+					log.info("Signature verified", { method: request.method });
+					agentMessage = `The user signed the ${request.method} request on chain ${request.chainId}. The signature was verified. Signature: ${signature}`;
+				}
+			}
+
+			// if not a transaction reference message, generate a reaction
+			if (!message.contentType.sameAs(ContentTypeTransactionReference)) {
+				// Generate and send a reaction
+				const reaction = await agent.generateReaction({
+					messageContent,
+					reference: message.id,
+					referenceInboxId: senderInboxId,
+					onUsage: (tokens) => recordUsage("reaction", tokens),
+				});
+
+				await conversation.send(reaction, ContentTypeReaction);
+			}
+
+			const session = sessions?.manager.touch(sessionKey) ?? {
+				chatId: `xmtp-${conversation.id}`,
+			};
+			const chatId = session.chatId;
+
+			const agentRoute = route?.({
+				kind,
+				conversationId: conversation.id,
+				senderAddresses,
+				// "@bitte /nft ..." in groups is routed like "/nft ..." in DMs
+				message: stripMention(messageContent, clientTags),
+			});
+			if (agentRoute) {
+				log.info("Routing message", {
+					route: agentRoute.name,
+					agentId: agentRoute.agentId,
+				});
+			}
+
+			const conversationHistory = history
+				? await buildConversationHistory({
+						client,
+						conversation,
+						before: message,
+						since: session.startedAt,
+						isGroup,
+						options: history,
+					})
+				: [];
+
+			// Transactions the simulation held back, told to the agent once its
+			// answer is out
+			const blockedNotes: string[] = [];
+			const toolCallOptions: ToolCallOptions = {
+				pendingSignatures: signatures && {
+					store: signatures,
+					key: signatureKey,
+				},
+				simulate: simulateTransaction,
+				signerPolicy,
+				onBlocked: (note) => blockedNotes.push(note),
+			};
+
+			// Tool results are sent to the user as soon as they stream in
+			const handledToolCallIds = new Set<string>();
+			const onToolResult = async (toolCall: ToolCall) => {
+				handledToolCallIds.add(toolCall.toolCallId);
+				await handleToolCalls(
+					conversation,
+					[toolCall],
+					senderAddresses,
+					log.child({ chatId }),
+					toolCallOptions,
+				);
+			};
+
+			// Get AI response
+			const completion = await agent.sendToAgent({
+				chatId,
+				message: agentMessage,
+				evmAddress: addressFromInboxId,
+				history: conversationHistory,
+				agentId: agentRoute?.agentId,
+				instructionsOverride: agentRoute?.instructionsOverride,
+				log: log.child({ chatId }),
+				onToolResult,
+				contextMessage: `This is a ${
+					isGroup ? "group" : "DM"
+				} chat from within The Base App using XMTP. Keep responses brief when possible. Use plain text and emojis, do not include link, markdown, or html formatting.
+
+The user's EVM address is ${addressFromInboxId}.${
+					senderAddresses.length > 1
+						? ` Other wallets linked to the user: ${senderAddresses.slice(1).join(", ")}.`
+						: ""
+				}
+
+- Your are an agent built by the Bitte Protocol Team (Bitte.ai). Do not mention OpenAI or any other LLMs.`,
+			});
+
+			const agentLog = log.child({
+				chatId,
+				bitteMessageId: completion.messageId,
+				route: agentRoute?.name,
+			});
+			agentLog.info("Agent completion", {
+				finishReason: completion.finishReason,
+				usage: completion.usage,
+				isError: completion.isError,
+				contentLength: completion.content?.length ?? 0,
+				toolCalls: completion.toolCalls?.map(
+					(toolCall) => toolCall.toolName || toolCall.toolCallId,
+				),
+				error: completion.error,
+			});
+			agentLog.debug("Agent completion content", {
+				content: completion.content,
+			});
+			if (completion.usage) recordUsage("agent", completion.usage);
+
+			// Handle tool calls that were not streamed using the transaction helpers
+			const remainingToolCalls = completion.toolCalls?.filter(
+				(toolCall) => !handledToolCallIds.has(toolCall.toolCallId),
+			);
+			if (remainingToolCalls && remainingToolCalls.length > 0) {
+				await handleToolCalls(
+					conversation,
+					remainingToolCalls,
+					senderAddresses,
+					agentLog,
+					toolCallOptions,
+				);
+			}
+
+			const isTransactionReference = message.contentType.sameAs(
+				ContentTypeTransactionReference,
+			);
+
+			// Follow the referenced transaction in the background, the
+			// conversation moves on meanwhile
+			const transaction =
+				isTransactionReference && parseTransactionReference(message.content);
+			if (receipts && transaction) {
+				const txLog = agentLog.child({
+					chainId: transaction.chainId,
+					transactionHash: transaction.hash,
+				});
+				const reportTransaction = async (outcome: ReceiptOutcome) => {
+					const status = describeReceiptOutcome(transaction, outcome);
+					await sendNotice(status);
+
+					// Let the agent know, its answer is not sent
+					const followUp = await agent.sendToAgent({
+						chatId,
+						message: `Status of the transaction the user sent earlier: ${status}`,
+						evmAddress: addressFromInboxId,
+						agentId: agentRoute?.agentId,
+						instructionsOverride: agentRoute?.instructionsOverride,
+						log: txLog,
+					});
+					if (followUp.usage) recordUsage("agent", followUp.usage);
+				};
+				const followTransaction = async () => {
+					const outcome = await receipts.watch(transaction);
+					metrics.transactionsWatched.inc({ status: outcome.status });
+					txLog.info("Transaction settled", { status: outcome.status });
+					if (outcome.status === "stopped") return;
+
+					// In order with the conversation's messages, and the shutdown
+					// drain waits for it
+					await schedule(conversation.id, () =>
+						reportTransaction(outcome).catch((error) => {
+							txLog.error("Failed to report transaction", { error });
+						}),
+					);
+				};
+				followTransaction().catch((error) => {
+					txLog.error("Failed to follow transaction", { error });
+				});
+			} else if (isTransactionReference) {
+				agentLog.warn("Transaction reference not followed", {
+					content: message.content,
+				});
+			}
+
+			const sendAgentReply = async (content: string) => {
+				const parts = format ? formatOutbound(content, format) : [content];
+				if (parts.length > 1) {
+					agentLog.debug("Splitting agent response", {
+						parts: parts.length,
+						contentLength: content.length,
+					});
+				}
+
+				for (const [index, part] of parts.entries()) {
+					// handle group messages, only the first part is threaded
+					if (isGroup && index === 0) {
+						const reply: Reply = {
+							reference: message.id,
+							contentType: ContentTypeText,
+							content: part,
+						};
+
+						await conversation.send(reply, ContentTypeReply);
+						// handle DM messages and follow-up parts
+					} else {
+						await conversation.send(part, ContentTypeText);
+					}
+				}
+			};
+
+			// Send AI response (ignore transaction references)
+			if (completion.content && !isTransactionReference) {
+				await sendAgentReply(completion.content);
+			}
+
+			// The agent answered without knowing its transaction was held back,
+			// let it explain or offer another way
+			if (blockedNotes.length > 0) {
+				const followUp = await agent.sendToAgent({
+					chatId,
+					message: blockedNotes.join("\n"),
+					evmAddress: addressFromInboxId,
+					agentId: agentRoute?.agentId,
+					instructionsOverride: agentRoute?.instructionsOverride,
+					log: agentLog,
+				});
+				if (followUp.usage) recordUsage("agent", followUp.usage);
+				if (followUp.content) await sendAgentReply(followUp.content);
+			}
+
+			return { status: "handled" };
+		} catch (error) {
+			logger.error("Error processing message", {
+				conversationId: message?.conversationId,
+				messageId: message?.id,
+				senderInboxId: message?.senderInboxId,
+				error,
+			});
+			return {
+				status: "failed",
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	};
+};
+
+/**
+ * Whether the agent already sent anything in the conversation
+ * Only used the first time a conversation is seen, so conversations that
+ * predate the welcome store are not greeted again.
+ */
+const hasAgentSentBefore = async (
+	conversation: AgentConversation,
+	clientInboxId: string,
+) => {
+	const messages = await conversation.messages();
+	return messages.some((msg) => msg.senderInboxId === clientInboxId);
+};
+
+interface ToolCallOptions {
+	// Where signature requests wait for the user's signature
+	pendingSignatures?: { store: SignatureRequests; key: string };
+	simulate?: (params: WalletSendCallsParams) => Promise<SimulationResult>;
+	signerPolicy?: SignerPolicy;
+	// Called with a note for the agent when a transaction was held back
+	onBlocked?: (note: string) => void;
+}
+
+/**
+ * Every EVM address linked to an inbox
+ * One inbox can hold several wallets, smart wallets included.
+ */
+const getLinkedAddresses = async (
+	client: Pick<AgentClient, "preferences">,
+	inboxId: string,
+) => {
+	const [inboxState] = await client.preferences.inboxStateFromInboxIds([
+		inboxId,
+	]);
+	return (inboxState?.identifiers ?? [])
+		.filter(({ identifierKind }) => identifierKind === IdentifierKind.Ethereum)
+		.map(({ identifier }) => identifier);
+};
+
+const handleToolCalls = async (
+	conversation: AgentConversation,
+	toolCalls: ToolCall[],
+	// Addresses linked to the sender's inbox
+	senderAddresses: string[],
+	log: Logger,
+	{
+		pendingSignatures,
+		simulate,
+		signerPolicy = "rewrite",
+		onBlocked,
+	}: ToolCallOptions = {},
+) => {
+	for (const toolCall of toolCalls) {
+		if (!toolCall.result?.data) continue;
+
+		const data = toolCall.result.data;
+
+		// Only process if data is an object (not string, number, etc.)
+		if (typeof data !== "object" || data === null) continue;
+
+		// Handle EVM sign requests using the helper functions
+		if ("evmSignRequest" in data && data.evmSignRequest) {
+			try {
+				// Validate the response
+				const validatedResponse = validateEvmTxResponse({
+					evmSignRequest: data.evmSignRequest,
+				});
+
+				// Signing requests get a readable prompt, the signature comes back
+				// as a message
+				const signRequest = validatedResponse.evmSignRequest;
+				const kind = isSignatureRequest(signRequest)
+					? "signature request"
+					: "transaction";
+
+				// The signer must be one of the sender's wallets, anything else is
+				// up to the policy
+				const signer = checkSigner(
+					extractSignerAddress(signRequest),
+					senderAddresses,
+					// a signature can't be moved to another signer
+					isSignatureRequest(signRequest) && signerPolicy === "rewrite"
+						? "warn"
+						: signerPolicy,
+				);
+				if (signer.status === "mismatch") {
+					metrics.signerMismatches.inc({ action: signer.action });
+					log.warn("Address mismatch", {
+						xmtpAddresses: senderAddresses,
+						requestAddress: signer.requested,
+						action: signer.action,
+					});
+					await conversation.send(
+						describeSignerMismatch(signer, senderAddresses, kind),
+						ContentTypeText,
+					);
+					if (signer.action === "reject") {
+						onBlocked?.(
+							`The ${kind} was not sent to the user, it is for ${signer.requested} but the user's inbox only has ${senderAddresses.join(", ") || "no linked wallet"}.`,
+						);
+						continue;
+					}
+				}
+
+				if (isSignatureRequest(signRequest)) {
+					if (!pendingSignatures) {
+						await conversation.send(
+							"Sorry, I can't collect signatures in this chat yet.",
+							ContentTypeText,
+						);
+						continue;
+					}
+					await conversation.send(
+						describeSignRequest(signRequest),
+						ContentTypeText,
+					);
+					pendingSignatures.store.add(pendingSignatures.key, signRequest);
+					metrics.signatureRequestsSent.inc({ method: signRequest.method });
+					log.info("Sent signature request", { method: signRequest.method });
+					continue;
+				}
+
+				// A linked wallet or, when warned, the requested one signs as asked;
+				// a rewrite goes to the sender's first address
+				const userAddress =
+					signer.status === "linked"
+						? signer.address
+						: signer.action === "warn"
+							? signer.requested
+							: (senderAddresses[0] as `0x${string}`);
+
+				// Convert to wallet send calls
+				const result = await handleEvmTransaction(
+					validatedResponse,
+					userAddress,
+				);
+
+				if (result.success) {
+					let walletSendCalls = result.data;
+
+					// Hold back calls that would revert, the user never gets to sign them
+					const simulation = await simulate?.(walletSendCalls);
+					if (simulation) {
+						metrics.transactionSimulations.inc({ status: simulation.status });
+					}
+					if (simulation?.status === "failed") {
+						const { callIndex, reason } = simulation;
+						const step =
+							walletSendCalls.calls.length > 1
+								? ` at step ${callIndex + 1}`
+								: "";
+						log.warn("Transaction simulation failed", { callIndex, reason });
+						await conversation.send(
+							`⚠️ I didn't send this transaction, it would fail${step}: ${reason}`,
+							ContentTypeText,
+						);
+						onBlocked?.(
+							`The transaction was not sent to the user's wallet, simulating call ${callIndex + 1} failed: ${reason}`,
+						);
+						continue;
+					}
+					if (simulation?.status === "unavailable") {
+						log.warn("Transaction simulation unavailable", {
+							reason: simulation.reason,
+						});
+					} else if (simulation) {
+						walletSendCalls = withGasEstimates(walletSendCalls, simulation.gas);
+					}
+
+					// Send the wallet send calls
+					await conversation.send(walletSendCalls, ContentTypeWalletSendCalls);
+					metrics.walletSendCallsSent.inc();
+				} else {
+					log.error("Failed to convert EVM transaction", {
+						error: result.error,
+					});
+
+					// Optionally send an error message to the user
+					await conversation.send(
+						`Sorry, I encountered an error processing your transaction: ${result.error}`,
+						ContentTypeText,
+					);
+				}
+			} catch (error) {
+				// Log the actual data that caused the error (calldata is truncated)
+				log.error("Error processing EVM sign request", { error, data });
+
+				// Optionally send an error message to the user
+				const errorMessage =
+					error instanceof Error ? error.message : "Unknown error occurred";
+
+				await conversation.send(
+					`Sorry, I couldn't process your transaction request: ${errorMessage}`,
+					ContentTypeText,
+				);
+			}
+		}
+		// Handle other tool call types here if needed
+	}
+};
@@ -0,0 +1,110 @@
+import { createJsonStore } from "@/helpers/json-store";
+import { logger } from "@/helpers/logger";
+import type { AgentMessage, MessageOutcome } from "@/helpers/message-handler";
+
+interface LedgerEntry {
+	outcome: MessageOutcome;
+	handledAt: number;
+}
+
+interface LedgerData {
+	messages: Record<string, LedgerEntry>;
+	// Latest `sentAt` (ms) of a processed message, per conversation ID
+	conversations: Record<string, number>;
+}
+
+export interface MessageLedger {
+	// True when the message was already handled or is being handled right now
+	has: (messageId: string) => boolean;
+	get: (messageId: string) => LedgerEntry | undefined;
+	// Mark a message as in flight so redeliveries are ignored while it runs
+	begin: (messageId: string) => void;
+	record: (
+		message: Pick<AgentMessage, "id" | "conversationId" | "sentAt">,
+		outcome: MessageOutcome,
+	) => void;
+	// Latest processed `sentAt` (ms) in a conversation, or across all of them
+	lastProcessedAt: (conversationId?: string) => number | undefined;
+	prune: () => number;
+	flush: () => Promise<void>;
+}
+
+/**
+ * Persistent record of processed message IDs and their outcomes
+ *
+ * XMTP can redeliver messages after a stream restart or `syncAll`, so every
+ * message is checked here before any work is done. Entries older than
+ * `retentionMs` are pruned, and at most `maxEntries` of the newest are kept.
+ */
+export const createMessageLedger = ({
+	filePath,
+	retentionMs = 7 * 24 * 60 * 60 * 1000, // 7 days
+	maxEntries = 50_000,
+	now = Date.now,
+}: {
+	filePath: string;
+	retentionMs?: number;
+	maxEntries?: number;
+	now?: () => number;
+}): MessageLedger => {
+	const store = createJsonStore<LedgerData>(filePath, {
+		messages: {},
+		conversations: {},
+	});
+	const inFlight = new Set<string>();
+	let recordsSincePrune = 0;
+
+	const prune = () => {
+		const cutoff = now() - retentionMs;
+		const entries = Object.entries(store.data.messages)
+			.filter(([, entry]) => entry.handledAt >= cutoff)
+			.sort(([, a], [, b]) => b.handledAt - a.handledAt)
+			.slice(0, maxEntries);
+
+		const removed = Object.keys(store.data.messages).length - entries.length;
+		if (removed > 0) {
+			store.data.messages = Object.fromEntries(entries);
+			store.save();
+		}
+		recordsSincePrune = 0;
+		return removed;
+	};
+
+	const removedOnLoad = prune();
+	if (removedOnLoad > 0) {
+		logger.info("Pruned old entries from message ledger", {
+			removed: removedOnLoad,
+		});
+	}
+
+	// Quiet periods never hit the record-count trigger, so prune on a timer too
+	setInterval(prune, 60 * 60 * 1000).unref();
+
+	return {
+		has: (messageId) =>
+			inFlight.has(messageId) || messageId in store.data.messages,
+		get: (messageId) => store.data.messages[messageId],
+		begin: (messageId) => {
+			inFlight.add(messageId);
+		},
+		record: ({ id, conversationId, sentAt }, outcome) => {
+			inFlight.delete(id);
+			store.data.messages[id] = { outcome, handledAt: now() };
+
+			const sentAtMs = sentAt.getTime();
+			if (sentAtMs > (store.data.conversations[conversationId] ?? 0)) {
+				store.data.conversations[conversationId] = sentAtMs;
+			}
+			store.save();
+
+			if (++recordsSincePrune >= 1000) prune();
+		},
+		lastProcessedAt: (conversationId) => {
+			if (conversationId) return store.data.conversations[conversationId];
+			const timestamps = Object.values(store.data.conversations);
+			return timestamps.length ? Math.max(...timestamps) : undefined;
+		},
+		prune,
+		flush: store.flush,
+	};
+};
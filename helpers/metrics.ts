@@ -0,0 +1,241 @@
+/**
+ * Prometheus metrics
+ *
+ * A minimal in-process registry rendered in the text exposition format, so
+ * `/metrics` needs no extra dependency. All of the agent's metrics are
+ * declared at the bottom of this file.
+ */
+
+import { logger } from "@/helpers/logger";
+
+type Labels = Record<string, string>;
+
+interface Metric {
+	render: () => string[];
+}
+
+const registry: Metric[] = [];
+const collectors: (() => void)[] = [];
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels));
+
+const formatLabels = (labels: Labels) => {
+	const entries = Object.entries(labels);
+	if (entries.length === 0) return "";
+	const formatted = entries.map(
+		([key, value]) =>
+			`${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+	);
+	return `{${formatted.join(",")}}`;
+};
+
+const header = (name: string, help: string, type: string) => [
+	`# HELP ${name} ${help}`,
+	`# TYPE ${name} ${type}`,
+];
+
+const createSeries = (name: string, help: string, type: string) => {
+	const series = new Map<string, { labels: Labels; value: number }>();
+	const metric = {
+		series,
+		render: () => [
+			...header(name, help, type),
+			...[...series.values()].map(
+				({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+			),
+		],
+	};
+	registry.push(metric);
+	return metric;
+};
+
+export const createCounter = (name: string, help: string) => {
+	const { series } = createSeries(name, help, "counter");
+	return {
+		inc: (labels: Labels = {}, value = 1) => {
+			const key = labelKey(labels);
+			const current = series.get(key);
+			series.set(key, { labels, value: (current?.value ?? 0) + value });
+		},
+	};
+};
+
+export const createGauge = (name: string, help: string) => {
+	const { series } = createSeries(name, help, "gauge");
+	return {
+		set: (value: number, labels: Labels = {}) => {
+			series.set(labelKey(labels), { labels, value });
+		},
+		reset: () => series.clear(),
+	};
+};
+
+export const createHistogram = (
+	name: string,
+	help: string,
+	buckets: number[],
+) => {
+	const series = new Map<
+		string,
+		{ labels: Labels; counts: number[]; sum: number; count: number }
+	>();
+
+	registry.push({
+		render: () => [
+			...header(name, help, "histogram"),
+			...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+				...buckets.map(
+					(bucket, index) =>
+						`${name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[index]}`,
+				),
+				`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+				`${name}_sum${formatLabels(labels)} ${sum}`,
+				`${name}_count${formatLabels(labels)} ${count}`,
+			]),
+		],
+	});
+
+	return {
+		observe: (value: number, labels: Labels = {}) => {
+			const key = labelKey(labels);
+			const entry = series.get(key) ?? {
+				labels,
+				counts: buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			buckets.forEach((bucket, index) => {
+				if (value <= bucket) entry.counts[index]++;
+			});
+			entry.sum += value;
+			entry.count++;
+			series.set(key, entry);
+		},
+	};
+};
+
+/**
+ * Register a callback that refreshes gauges right before each scrape
+ */
+export const addCollector = (collect: () => void) => {
+	collectors.push(collect);
+};
+
+export const renderMetrics = () => {
+	for (const collect of collectors) {
+		try {
+			collect();
+		} catch (error) {
+			logger.error("Metrics collector failed", { error });
+		}
+	}
+	return `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+};
+
+export const metrics = {
+	messagesReceived: createCounter(
+		"xmtp_messages_received_total",
+		"Messages received from the stream or the catch-up pass",
+	),
+	messagesSkipped: createCounter(
+		"xmtp_messages_skipped_total",
+		"Messages ignored without an agent call, by reason",
+	),
+	messagesProcessed: createCounter(
+		"xmtp_messages_processed_total",
+		"Messages that went through the pipeline, by status",
+	),
+	messagesRateLimited: createCounter(
+		"xmtp_messages_rate_limited_total",
+		"Messages dropped by the rate limiter, by conversation kind and scope",
+	),
+	rateLimitThrottled: createGauge(
+		"xmtp_rate_limit_throttled_buckets",
+		"Senders and conversations currently over their rate limit",
+	),
+	rateLimitTracked: createGauge(
+		"xmtp_rate_limit_tracked_buckets",
+		"Rate limit buckets held in memory",
+	),
+	messagesOverQuota: createCounter(
+		"xmtp_messages_over_quota_total",
+		"Messages dropped because a token quota was used up, by scope and period",
+	),
+	llmTokens: createCounter(
+		"llm_tokens_total",
+		"Tokens used by agent completions and reactions, by source and type",
+	),
+	commandsHandled: createCounter(
+		"xmtp_commands_handled_total",
+		"Slash commands answered without an agent call, by command",
+	),
+	walletSendCallsSent: createCounter(
+		"xmtp_wallet_send_calls_sent_total",
+		"WalletSendCalls messages sent to users",
+	),
+	transactionSimulations: createCounter(
+		"xmtp_transaction_simulations_total",
+		"Pre-flight simulations of transactions, by outcome",
+	),
+	signerMismatches: createCounter(
+		"xmtp_signer_mismatches_total",
+		"Sign requests for an address not linked to the sender, by action taken",
+	),
+	signatureRequestsSent: createCounter(
+		"xmtp_signature_requests_sent_total",
+		"Signature prompts sent to users, by method",
+	),
+	signaturesReceived: createCounter(
+		"xmtp_signatures_received_total",
+		"Signatures returned for a pending request, by method and outcome",
+	),
+	transactionsWatched: createCounter(
+		"xmtp_transactions_watched_total",
+		"Transactions users sent references for, by final status",
+	),
+	agentRequestDuration: createHistogram(
+		"bitte_agent_request_duration_seconds",
+		"Time spent in sendToAgent, including retries",
+		[0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+	),
+	agentRequests: createCounter(
+		"bitte_agent_requests_total",
+		"Completed sendToAgent calls, by outcome",
+	),
+	agentAttemptFailures: createCounter(
+		"bitte_agent_attempt_failures_total",
+		"Failed HTTP attempts to the Bitte API, by status or error",
+	),
+	agentRequestsShortCircuited: createCounter(
+		"bitte_agent_requests_short_circuited_total",
+		"sendToAgent calls answered with the fallback while the circuit breaker was open",
+	),
+	agentCircuitState: createGauge(
+		"bitte_agent_circuit_breaker_state",
+		"Bitte circuit breaker state: 0 closed, 1 half-open, 2 open",
+	),
+	agentCircuitFailures: createGauge(
+		"bitte_agent_circuit_breaker_consecutive_failures",
+		"Failed sendToAgent calls in a row",
+	),
+	streamRetriesLeft: createGauge(
+		"xmtp_stream_retries_left",
+		"Stream restarts left before the process gives up",
+	),
+	streamActive: createGauge(
+		"xmtp_stream_active",
+		"1 while the message stream is connected",
+	),
+	schedulerActive: createGauge(
+		"xmtp_scheduler_active_conversations",
+		"Conversations with a message being processed",
+	),
+	schedulerQueued: createGauge(
+		"xmtp_scheduler_queued_messages",
+		"Messages waiting for their conversation's turn",
+	),
+	schedulerWaitMax: createGauge(
+		"xmtp_scheduler_wait_max_seconds",
+		"Longest time a message waited before processing",
+	),
+};
@@ -0,0 +1,127 @@
+import { readFileSync } from "node:fs";
+import { formatDataStreamPart, generateId } from "ai";
+import type { AgentBackend, AgentRequest } from "@/helpers/agent-backend";
+import {
+	createCompletionCollector,
+	type DataStreamEvent,
+	parseDataStreamLine,
+} from "@/helpers/data-stream-parser";
+import { logger } from "@/helpers/logger";
+import type { CompletionResponse, ToolCall } from "@/helpers/message-handler";
+
+/**
+ * One scripted answer, either as raw data-stream lines (as recorded from the
+ * Bitte runtime) or as plain content and tool calls
+ */
+interface MockResponse {
+	// Case-insensitive text the user message must contain, entries without it
+	// are played in turn for everything else
+	match?: string;
+	lines?: string[];
+	content?: string;
+	toolCalls?: ToolCall[];
+	// Simulated latency
+	delayMs?: number;
+}
+
+interface MockScript {
+	reaction?: string;
+	responses: MockResponse[];
+}
+
+const toLines = ({ lines, content, toolCalls = [] }: MockResponse) => {
+	if (lines) return lines;
+
+	return [
+		formatDataStreamPart("start_step", { messageId: generateId() }),
+		...toolCalls.flatMap(({ toolCallId, toolName, args, result, ui }) => [
+			formatDataStreamPart("tool_call", { toolCallId, toolName, args }),
+			// Bitte adds `ui` to tool results, which the SDK's formatter does not know
+			...(result ? [`a:${JSON.stringify({ toolCallId, result, ui })}`] : []),
+		]),
+		...(content ? [formatDataStreamPart("text", content)] : []),
+		formatDataStreamPart("finish_message", {
+			finishReason: "stop",
+			usage: { promptTokens: 0, completionTokens: 0 },
+		}),
+	].map((line) => line.trimEnd());
+};
+
+/**
+ * Play back canned responses from a JSON file, for development without the
+ * Bitte runtime or an LLM
+ *
+ * Responses go through the same parser as live ones, so tool results reach
+ * the pipeline exactly as they would from Bitte.
+ *
+ * @param filePath - JSON file with `{ reaction?, responses: MockResponse[] }`
+ */
+export const createMockBackend = ({
+	filePath,
+}: {
+	filePath: string;
+}): AgentBackend => {
+	const script = JSON.parse(readFileSync(filePath, "utf8")) as MockScript;
+	if (!Array.isArray(script.responses)) {
+		throw new Error(`Mock backend script ${filePath} has no responses array`);
+	}
+
+	const fallbacks = script.responses.filter((response) => !response.match);
+	let turn = 0;
+
+	const pickResponse = (message: string): MockResponse => {
+		const text = message.toLowerCase();
+		const matched = script.responses.find(
+			(response) =>
+				response.match && text.includes(response.match.toLowerCase()),
+		);
+		if (matched) return matched;
+
+		const fallback = fallbacks[turn++ % Math.max(fallbacks.length, 1)];
+		return fallback ?? { content: `No scripted response for: ${message}` };
+	};
+
+	const sendToAgent = async ({
+		chatId,
+		message,
+		log = logger.child({ chatId }),
+		onEvent,
+		onToolResult,
+	}: AgentRequest): Promise<CompletionResponse> => {
+		const response = pickResponse(message);
+		if (response.delayMs) {
+			await new Promise((resolve) => setTimeout(resolve, response.delayMs));
+		}
+
+		const collector = createCompletionCollector();
+		const lines = toLines(response);
+		for (const line of lines) {
+			let event: DataStreamEvent | undefined;
+			try {
+				event = parseDataStreamLine(line);
+			} catch (error) {
+				log.warn("Skipping invalid mock stream line", { line, error });
+			}
+			if (!event) continue;
+
+			// Handler errors reach the caller, like with a live backend
+			const toolResult = collector.add(event);
+			await onEvent?.(event);
+			if (toolResult) await onToolResult?.(toolResult);
+		}
+
+		return { ...collector.result(), raw: lines.join("\n") };
+	};
+
+	return {
+		name: "mock",
+		sendToAgent,
+		generateReaction: async ({ reference, referenceInboxId }) => ({
+			reference,
+			referenceInboxId,
+			action: "added",
+			content: script.reaction ?? "🤖",
+			schema: "unicode",
+		}),
+	};
+};
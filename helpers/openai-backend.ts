@@ -0,0 +1,124 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { Reaction } from "@xmtp/content-type-reaction";
+import {
+	type CoreMessage,
+	generateId,
+	generateText,
+	type LanguageModel,
+} from "ai";
+import {
+	type AgentBackend,
+	type AgentRequest,
+	ERROR_REPLY,
+} from "@/helpers/agent-backend";
+import { logger } from "@/helpers/logger";
+import type {
+	AgentService,
+	CompletionResponse,
+} from "@/helpers/message-handler";
+
+/**
+ * React to messages with one emoji picked by `model`
+ */
+export const createReactionGenerator =
+	(model: LanguageModel): AgentService["generateReaction"] =>
+	async ({
+		messageContent,
+		reference,
+		referenceInboxId,
+		onUsage,
+	}): Promise<Reaction> => {
+		const emoji = await generateText({
+			model,
+			prompt: `Return only a single emoji that matches the sentiment of this message: ${messageContent}. Do not include any other text or explanation.`,
+		});
+		onUsage?.({
+			promptTokens: emoji.usage.promptTokens,
+			completionTokens: emoji.usage.completionTokens,
+		});
+
+		return {
+			reference,
+			action: "added",
+			content: emoji.text,
+			schema: "unicode",
+			referenceInboxId,
+		};
+	};
+
+/**
+ * Talk to an LLM directly with the `ai` SDK, no Bitte runtime involved
+ *
+ * Any OpenAI-compatible server works through `baseURL` (a local llama.cpp,
+ * vLLM or Ollama instance, for example). There are no Bitte tools, so
+ * completions never carry tool calls. Reactions use the same server and model.
+ *
+ * @param baseURL - Defaults to the OpenAI API
+ * @param model - Model ID as the server knows it
+ */
+export const createOpenAIBackend = ({
+	apiKey,
+	baseURL,
+	model,
+}: {
+	apiKey: string;
+	baseURL?: string;
+	model: string;
+}): AgentBackend => {
+	const provider = createOpenAI({ apiKey, baseURL });
+
+	const sendToAgent = async ({
+		chatId,
+		message,
+		contextMessage,
+		history = [],
+		instructionsOverride,
+		log = logger.child({ chatId }),
+		onEvent,
+	}: AgentRequest): Promise<CompletionResponse> => {
+		const system = [instructionsOverride, contextMessage]
+			.filter(Boolean)
+			.join("\n\n");
+		const messages: CoreMessage[] = [
+			...history,
+			{ role: "user", content: message },
+		];
+
+		try {
+			const result = await generateText({
+				model: provider(model),
+				system: system || undefined,
+				messages,
+			});
+
+			await onEvent?.({ type: "text", value: result.text });
+
+			return {
+				messageId: result.response.id || generateId(),
+				content: result.text,
+				finishReason: result.finishReason,
+				usage: {
+					promptTokens: result.usage.promptTokens,
+					completionTokens: result.usage.completionTokens,
+				},
+				toolCalls: [],
+			};
+		} catch (error) {
+			log.error("LLM request failed", { model, baseURL, error });
+			return {
+				messageId: generateId(),
+				content: ERROR_REPLY,
+				finishReason: "error",
+				usage: null,
+				toolCalls: [],
+				isError: true,
+			};
+		}
+	};
+
+	return {
+		name: "openai",
+		sendToAgent,
+		generateReaction: createReactionGenerator(provider(model)),
+	};
+};
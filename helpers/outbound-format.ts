@@ -0,0 +1,172 @@
+/**
+ * Outbound formatting
+ *
+ * Base App renders messages as plain text, so markdown and HTML from the
+ * model are turned into readable text, links are filtered and long answers
+ * are split into several messages before anything is sent.
+ */
+
+export type UrlPolicy = "keep" | "strip" | "allowlist";
+
+export interface OutboundFormatOptions {
+	urls: UrlPolicy;
+	// Domains kept under the allowlist policy, subdomains included
+	allowedDomains: string[];
+	// Characters per message
+	maxLength: number;
+	// Messages per answer, the last one is truncated when the answer is longer
+	maxParts: number;
+}
+
+export const isUrlPolicy = (value: unknown): value is UrlPolicy =>
+	value === "keep" || value === "strip" || value === "allowlist";
+
+// A URL with the whitespace before it, which goes along when it is removed
+const URL_PATTERN = /([ \t]*)(\bhttps?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/gi;
+const ELLIPSIS = "…";
+
+/**
+ * Whether a URL may be sent under the given policy
+ */
+export const isUrlAllowed = (
+	url: string,
+	{
+		urls,
+		allowedDomains,
+	}: Pick<OutboundFormatOptions, "urls" | "allowedDomains">,
+) => {
+	if (urls === "keep") return true;
+	if (urls === "strip") return false;
+
+	try {
+		const hostname = new URL(url).hostname.toLowerCase();
+		return allowedDomains.some(
+			(domain) => hostname === domain || hostname.endsWith(`.${domain}`),
+		);
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Turn markdown and HTML into plain text
+ *
+ * Links keep their text, and their URL when `keepUrl` allows it.
+ */
+export const toPlainText = (
+	text: string,
+	keepUrl: (url: string) => boolean = () => true,
+) => {
+	const link = (label: string, url: string) => {
+		if (!keepUrl(url)) return label;
+		return !label || label === url ? url : `${label} (${url})`;
+	};
+
+	return (
+		text
+			// code fences: keep the code, drop the fence and language
+			.replace(/```[^\n`]*\n?([\s\S]*?)```/g, (_, code: string) =>
+				code.trimEnd(),
+			)
+			// images and links
+			.replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, alt, url) =>
+				link(alt, url),
+			)
+			.replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label, url) =>
+				link(label, url),
+			)
+			// HTML
+			.replace(/<br\s*\/?>/gi, "\n")
+			.replace(/<a\s[^>]*href="([^"]+)"[^>]*>(.*?)<\/a>/gi, (_, url, label) =>
+				link(label, url),
+			)
+			.replace(/<\/?[a-z][^>]*>/gi, "")
+			// headers, quotes and rules
+			.replace(/^#{1,6}\s+/gm, "")
+			.replace(/^>\s?/gm, "")
+			.replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, "")
+			// list bullets
+			.replace(/^(\s*)[*+]\s+/gm, "$1- ")
+			// emphasis, strikethrough and inline code
+			.replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "$2")
+			.replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, "$1$2")
+			.replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1$2")
+			.replace(/~~(?=\S)([\s\S]*?\S)~~/g, "$1")
+			.replace(/`([^`\n]+)`/g, "$1")
+			// tidy up
+			.replace(/[ \t]+$/gm, "")
+			.replace(/\n{3,}/g, "\n\n")
+			.trim()
+	);
+};
+
+/**
+ * Remove bare URLs the policy does not allow
+ */
+export const filterUrls = (text: string, keepUrl: (url: string) => boolean) =>
+	text
+		.replace(URL_PATTERN, (match, _space, url: string) =>
+			keepUrl(url) ? match : "",
+		)
+		// leftovers such as "details ()", calls like "f()" in code stay
+		.replace(/[ \t]+\(\)/g, "")
+		.replace(/(\S)[ \t]{2,}/g, "$1 ")
+		.replace(/[ \t]+$/gm, "");
+
+// Last good place to cut `text` at or before `limit`
+const findBreak = (text: string, limit: number) => {
+	const window = text.slice(0, limit + 1);
+	for (const separator of ["\n\n", "\n", ". ", " "]) {
+		const index = window.lastIndexOf(separator);
+		// a break in the first half would leave a tiny part
+		if (index > limit / 2) return index + separator.length;
+	}
+	// no break, but don't cut an emoji or other astral character in half
+	const code = text.charCodeAt(limit - 1);
+	return code >= 0xd800 && code <= 0xdbff ? limit - 1 : limit;
+};
+
+/**
+ * Split text into at most `maxParts` messages of up to `maxLength` characters,
+ * breaking at paragraphs, lines, sentences or words where possible
+ */
+export const splitMessage = (
+	text: string,
+	maxLength: number,
+	maxParts: number,
+) => {
+	const parts: string[] = [];
+	let rest = text.trim();
+
+	while (rest && parts.length < maxParts) {
+		if (rest.length <= maxLength) {
+			parts.push(rest);
+			return parts;
+		}
+
+		if (parts.length === maxParts - 1) {
+			// last part: cut and mark the answer as truncated
+			const cut = findBreak(rest, maxLength - ELLIPSIS.length);
+			parts.push(`${rest.slice(0, cut).trimEnd()}${ELLIPSIS}`);
+			return parts;
+		}
+
+		const cut = findBreak(rest, maxLength);
+		parts.push(rest.slice(0, cut).trimEnd());
+		rest = rest.slice(cut).trimStart();
+	}
+
+	return parts;
+};
+
+/**
+ * Format an answer for sending, returns the messages in order
+ */
+export const formatOutbound = (
+	text: string,
+	options: OutboundFormatOptions,
+): string[] => {
+	const keepUrl = (url: string) => isUrlAllowed(url, options);
+	const plain = filterUrls(toPlainText(text, keepUrl), keepUrl).trim();
+	return splitMessage(plain, options.maxLength, Math.max(options.maxParts, 1));
+};
@@ -0,0 +1,182 @@
+import type { ConversationKind } from "@/helpers/message-handler";
+
+export interface RateLimit {
+	// Messages allowed per window, also the burst size
+	limit: number;
+	windowMs: number;
+}
+
+export type RateLimitScope = "sender" | "conversation";
+
+export interface RateLimits {
+	// Missing limits are not enforced
+	dm: Partial<Record<RateLimitScope, RateLimit>>;
+	group: Partial<Record<RateLimitScope, RateLimit>>;
+}
+
+export type RateLimitDecision =
+	| { status: "allowed" }
+	| {
+			status: "throttled";
+			scope: RateLimitScope;
+			retryAfterMs: number;
+			// First rejection since the bucket was last allowed, send a notice
+			notify: boolean;
+	  };
+
+export interface RateLimiterStats {
+	// Buckets in memory
+	tracked: number;
+	// Buckets currently over their limit
+	throttled: number;
+}
+
+export interface MessageRateLimiter {
+	check: (params: {
+		kind: Extract<ConversationKind, "dm" | "group">;
+		senderInboxId: string;
+		conversationId: string;
+	}) => RateLimitDecision;
+	stats: () => RateLimiterStats;
+	// Drop buckets that refilled completely, they behave like new ones
+	prune: () => void;
+}
+
+interface Bucket {
+	limit: RateLimit;
+	tokens: number;
+	updatedAt: number;
+	notified: boolean;
+}
+
+const PRUNE_INTERVAL = 10 * 60_000; // 10 minutes
+
+/**
+ * Parse a limit written as `<messages>/<seconds>`, e.g. `10/60`
+ *
+ * `off` or `0` disables the limit. Invalid values fall back to `fallback`,
+ * including fractional message counts: a bucket that never holds a whole
+ * token would throttle forever.
+ */
+export const parseRateLimit = (
+	value: string | undefined,
+	fallback?: RateLimit,
+): RateLimit | undefined => {
+	if (value === undefined || value.trim() === "") return fallback;
+	if (value === "off" || value === "0") return undefined;
+
+	const [limit, seconds] = value.split("/").map(Number);
+	if (
+		limit === undefined ||
+		!Number.isInteger(limit) ||
+		limit < 1 ||
+		!seconds ||
+		!Number.isFinite(seconds) ||
+		seconds < 0
+	) {
+		return fallback;
+	}
+	return { limit, windowMs: seconds * 1000 };
+};
+
+/**
+ * Token buckets keyed by sender inbox ID and by conversation
+ *
+ * Each bucket holds up to `limit` tokens and refills at `limit` per window. A
+ * message needs a token from both its sender and its conversation bucket, so
+ * neither is charged when the other one is empty.
+ */
+export const createMessageRateLimiter = ({
+	limits,
+	now = Date.now,
+}: {
+	limits: RateLimits;
+	now?: () => number;
+}): MessageRateLimiter => {
+	const buckets = new Map<string, Bucket>();
+
+	const refill = (bucket: Bucket, at: number) => {
+		const elapsed = at - bucket.updatedAt;
+		const rate = bucket.limit.limit / bucket.limit.windowMs;
+		bucket.tokens = Math.min(
+			bucket.limit.limit,
+			bucket.tokens + elapsed * rate,
+		);
+		bucket.updatedAt = at;
+		return bucket;
+	};
+
+	const getBucket = (key: string, limit: RateLimit, at: number) => {
+		const bucket = buckets.get(key);
+		if (bucket) return refill(bucket, at);
+
+		const created = {
+			limit,
+			tokens: limit.limit,
+			updatedAt: at,
+			notified: false,
+		};
+		buckets.set(key, created);
+		return created;
+	};
+
+	const check: MessageRateLimiter["check"] = ({
+		kind,
+		senderInboxId,
+		conversationId,
+	}) => {
+		const at = now();
+		const scopes: [RateLimitScope, string][] = [
+			["sender", `${kind}:sender:${senderInboxId}`],
+			["conversation", `${kind}:conversation:${conversationId}`],
+		];
+
+		const charged: Bucket[] = [];
+		for (const [scope, key] of scopes) {
+			const limit = limits[kind][scope];
+			if (!limit) continue;
+
+			const bucket = getBucket(key, limit, at);
+			if (bucket.tokens < 1) {
+				const rate = limit.limit / limit.windowMs;
+				const notify = !bucket.notified;
+				bucket.notified = true;
+				return {
+					status: "throttled",
+					scope,
+					retryAfterMs: Math.ceil((1 - bucket.tokens) / rate),
+					notify,
+				};
+			}
+			charged.push(bucket);
+		}
+
+		for (const bucket of charged) {
+			bucket.tokens -= 1;
+			bucket.notified = false;
+		}
+		return { status: "allowed" };
+	};
+
+	const prune = () => {
+		const at = now();
+		for (const [key, bucket] of buckets) {
+			if (refill(bucket, at).tokens >= bucket.limit.limit) buckets.delete(key);
+		}
+	};
+
+	setInterval(prune, PRUNE_INTERVAL).unref();
+
+	return {
+		check,
+		stats: () => {
+			const at = now();
+			let throttled = 0;
+			for (const bucket of buckets.values()) {
+				if (bucket.notified && refill(bucket, at).tokens < 1) throttled++;
+			}
+			return { tracked: buckets.size, throttled };
+		},
+		prune,
+	};
+};
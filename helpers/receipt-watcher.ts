@@ -0,0 +1,191 @@
+import {
+	type Hash,
+	type PublicClient,
+	TransactionReceiptNotFoundError,
+} from "viem";
+import { getChain, getPublicClient } from "@/helpers/chains";
+import { logger } from "@/helpers/logger";
+import { describeRevertError } from "@/helpers/transaction-simulator";
+
+export interface WatchedTransaction {
+	chainId: number;
+	hash: Hash;
+}
+
+export type ReceiptOutcome =
+	| { status: "success"; blockNumber: bigint; gasUsed: bigint }
+	| {
+			status: "reverted";
+			blockNumber: bigint;
+			gasUsed: bigint;
+			reason?: string;
+	  }
+	// Not confirmed before the timeout
+	| { status: "timeout" }
+	// No RPC for the chain
+	| { status: "unsupported_chain" }
+	// The watcher was stopped, e.g. on shutdown
+	| { status: "stopped" };
+
+export interface ReceiptWatcher {
+	// Resolves once the transaction is confirmed or reverted, or on timeout
+	watch: (transaction: WatchedTransaction) => Promise<ReceiptOutcome>;
+	// End every watch with `stopped`
+	stop: () => void;
+}
+
+/**
+ * Chain and hash of a TransactionReference message
+ *
+ * @returns Undefined when the network or the hash can't be read
+ */
+export const parseTransactionReference = (
+	content: unknown,
+): WatchedTransaction | undefined => {
+	if (!content || typeof content !== "object") return undefined;
+	const { networkId, reference } = content as Record<string, unknown>;
+
+	// decimal or hex, as a number or a string
+	const chainId = Number(networkId);
+	if (!Number.isSafeInteger(chainId) || chainId <= 0) return undefined;
+	if (typeof reference !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(reference)) {
+		return undefined;
+	}
+	return { chainId, hash: reference as Hash };
+};
+
+/**
+ * Why a mined transaction reverted, by replaying it at its block
+ */
+const getRevertReason = async (
+	client: PublicClient,
+	hash: Hash,
+	blockNumber: bigint,
+) => {
+	try {
+		const transaction = await client.getTransaction({ hash });
+		await client.call({
+			account: transaction.from,
+			to: transaction.to,
+			data: transaction.input,
+			value: transaction.value,
+			gas: transaction.gas,
+			blockNumber,
+		});
+		return undefined;
+	} catch (error) {
+		return describeRevertError(error);
+	}
+};
+
+/**
+ * Poll transactions until they are confirmed, revert or time out
+ *
+ * @param pollIntervalMs - Time between receipt lookups
+ * @param timeoutMs - How long to wait for the transaction to be mined
+ * @param confirmations - Blocks, including the one with the transaction,
+ *   before a success counts
+ */
+export const createReceiptWatcher = ({
+	pollIntervalMs,
+	timeoutMs,
+	confirmations = 1,
+	getClient = getPublicClient,
+	now = Date.now,
+}: {
+	pollIntervalMs: number;
+	timeoutMs: number;
+	confirmations?: number;
+	getClient?: (chainId: number) => PublicClient | undefined;
+	now?: () => number;
+}): ReceiptWatcher => {
+	let stopped = false;
+	// Wake-ups of sleeping watches, called on stop
+	const sleepers = new Set<() => void>();
+
+	const sleep = (ms: number) =>
+		new Promise<void>((resolve) => {
+			const wake = () => {
+				clearTimeout(timer);
+				sleepers.delete(wake);
+				resolve();
+			};
+			const timer = setTimeout(wake, ms);
+			timer.unref();
+			sleepers.add(wake);
+		});
+
+	const watch = async ({
+		chainId,
+		hash,
+	}: WatchedTransaction): Promise<ReceiptOutcome> => {
+		const client = getClient(chainId);
+		if (!client) return { status: "unsupported_chain" };
+
+		const log = logger.child({ chainId, transactionHash: hash });
+		const deadline = now() + timeoutMs;
+
+		while (!stopped) {
+			try {
+				const receipt = await client.getTransactionReceipt({ hash });
+				const { blockNumber, gasUsed } = receipt;
+
+				if (receipt.status === "reverted") {
+					const reason = await getRevertReason(client, hash, blockNumber);
+					return { status: "reverted", blockNumber, gasUsed, reason };
+				}
+
+				const confirmed =
+					confirmations <= 1 ||
+					(await client.getBlockNumber()) - blockNumber + 1n >=
+						BigInt(confirmations);
+				if (confirmed) return { status: "success", blockNumber, gasUsed };
+			} catch (error) {
+				// not mined yet, anything else is worth a look but not fatal
+				if (!(error instanceof TransactionReceiptNotFoundError)) {
+					log.warn("Receipt lookup failed", { error });
+				}
+			}
+
+			if (now() >= deadline) return { status: "timeout" };
+			await sleep(pollIntervalMs);
+		}
+		return { status: "stopped" };
+	};
+
+	return {
+		watch,
+		stop: () => {
+			stopped = true;
+			for (const wake of sleepers) wake();
+		},
+	};
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`;
+
+/**
+ * Plain-text status for the conversation
+ */
+export const describeReceiptOutcome = (
+	{ chainId, hash }: WatchedTransaction,
+	outcome: ReceiptOutcome,
+) => {
+	const chain = getChain(chainId)?.name ?? `chain ${chainId}`;
+	const transaction = `Transaction ${shortHash(hash)} on ${chain}`;
+
+	switch (outcome.status) {
+		case "success":
+			return `✅ ${transaction} confirmed in block ${outcome.blockNumber}, gas used ${outcome.gasUsed}.`;
+		case "reverted":
+			return outcome.reason
+				? `❌ ${transaction} failed: ${outcome.reason}`
+				: `❌ ${transaction} failed (reverted).`;
+		case "timeout":
+			return `⏳ ${transaction} is not confirmed yet. Check your wallet for its status.`;
+		case "unsupported_chain":
+			return `I can't follow transactions on ${chain}.`;
+		case "stopped":
+			return `${transaction} is no longer being watched.`;
+	}
+};
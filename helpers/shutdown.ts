@@ -0,0 +1,103 @@
+/**
+ * Graceful shutdown
+ *
+ * One path for every way the process ends: signals from the platform (Railway
+ * sends SIGTERM on deploy) and fatal errors such as the stream giving up.
+ */
+
+import { constants } from "node:os";
+import { logger } from "@/helpers/logger";
+
+export const EXIT_CODES = {
+	// Drained cleanly after a signal
+	ok: 0,
+	// The stream could not be kept alive
+	streamFailed: 1,
+	// In-flight work did not finish before the drain timeout
+	drainTimeout: 2,
+	// The health and metrics server could not run, e.g. the port is taken
+	httpServerFailed: 3,
+} as const;
+
+export interface GracefulShutdown {
+	shutdown: (reason: string, exitCode: number) => Promise<void>;
+	isShuttingDown: () => boolean;
+	handleSignals: (signals?: NodeJS.Signals[]) => void;
+}
+
+export const createGracefulShutdown = ({
+	stopIntake,
+	drain,
+	close,
+	drainTimeoutMs,
+	exit = (code) => process.exit(code),
+}: {
+	// Stop taking new messages, synchronous so nothing slips in after it
+	stopIntake: () => void;
+	// Resolves once in-flight message handling is finished
+	drain: () => Promise<void>;
+	// Release resources: end the stream, flush local stores
+	close: () => Promise<void>;
+	drainTimeoutMs: number;
+	exit?: (code: number) => void;
+}): GracefulShutdown => {
+	let shuttingDown = false;
+
+	const shutdown = async (reason: string, exitCode: number) => {
+		if (shuttingDown) return;
+		shuttingDown = true;
+
+		logger.info("Shutting down, draining in-flight messages", { reason });
+		stopIntake();
+
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const drained = await Promise.race([
+			drain().then(() => true),
+			new Promise<false>((resolve) => {
+				timer = setTimeout(() => resolve(false), drainTimeoutMs);
+			}),
+		]);
+		clearTimeout(timer);
+
+		if (!drained) {
+			logger.warn("In-flight messages did not finish before the timeout", {
+				drainTimeoutMs,
+			});
+		}
+
+		try {
+			await close();
+		} catch (error) {
+			logger.error("Error during shutdown", { error });
+		}
+
+		const code =
+			!drained && exitCode === EXIT_CODES.ok
+				? EXIT_CODES.drainTimeout
+				: exitCode;
+		logger.info("Shutdown complete", { exitCode: code });
+		exit(code);
+	};
+
+	const handleSignals = (signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"]) => {
+		for (const signal of signals) {
+			process.on(signal, () => {
+				// A second signal skips the drain
+				if (shuttingDown) {
+					logger.warn("Received signal again, exiting immediately", {
+						signal,
+					});
+					exit(128 + constants.signals[signal]);
+					return;
+				}
+				void shutdown(signal, EXIT_CODES.ok);
+			});
+		}
+	};
+
+	return {
+		shutdown,
+		isShuttingDown: () => shuttingDown,
+		handleSignals,
+	};
+};
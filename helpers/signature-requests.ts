@@ -0,0 +1,222 @@
+import {
+	type Address,
+	type Hex,
+	hexToString,
+	isHex,
+	type TypedDataDefinition,
+	verifyHash,
+	verifyMessage,
+	verifyTypedData,
+} from "viem";
+import { verifyHash as verifyHashOnChain } from "viem/actions";
+import { getChain, getPublicClient } from "@/helpers/chains";
+import { createJsonStore } from "@/helpers/json-store";
+import { extractSignerAddress } from "@/helpers/transaction-helpers";
+import type {
+	EthSignParams,
+	PersonalSignParams,
+	SignMethod,
+	SignRequestData,
+} from "@/server";
+
+// Sign methods answered with a signature rather than a transaction
+export type SignatureMethod = Exclude<SignMethod, "eth_sendTransaction">;
+
+export const isSignatureRequest = (
+	request: SignRequestData,
+): request is SignRequestData & { method: SignatureMethod } =>
+	request.method !== "eth_sendTransaction";
+
+interface PendingSignature {
+	request: SignRequestData;
+	// When the prompt was sent (ms)
+	createdAt: number;
+}
+
+interface SignatureData {
+	// "<conversationId>:<senderInboxId>" to the request waiting for a signature
+	pending: Record<string, PendingSignature>;
+}
+
+export interface SignatureRequests {
+	// Wait for a signature, replacing an older request from the same sender
+	add: (key: string, request: SignRequestData) => void;
+	// The waiting request, undefined once it expired
+	get: (key: string) => PendingSignature | undefined;
+	remove: (key: string) => void;
+	flush: () => Promise<void>;
+}
+
+/**
+ * Persistent signature requests waiting for the user's signature
+ *
+ * @param ttlMs - How long a request accepts a signature
+ */
+export const createSignatureRequests = ({
+	filePath,
+	ttlMs,
+	now = Date.now,
+}: {
+	filePath: string;
+	ttlMs: number;
+	now?: () => number;
+}): SignatureRequests => {
+	const store = createJsonStore<SignatureData>(filePath, { pending: {} });
+
+	const remove = (key: string) => {
+		if (!(key in store.data.pending)) return;
+		delete store.data.pending[key];
+		store.save();
+	};
+
+	return {
+		add: (key, request) => {
+			store.data.pending[key] = { request, createdAt: now() };
+			store.save();
+		},
+		get: (key) => {
+			const pending = store.data.pending[key];
+			if (pending && now() - pending.createdAt > ttlMs) {
+				remove(key);
+				return undefined;
+			}
+			return pending;
+		},
+		remove,
+		flush: store.flush,
+	};
+};
+
+/**
+ * The first signature in a message, e.g. "@bitte 0x1234…"
+ * Smart wallet signatures (ERC-1271 / ERC-6492) are longer than 65 bytes.
+ */
+export const findSignature = (text: string) =>
+	/\b0x[0-9a-fA-F]{130,}\b/.exec(text)?.[0] as Hex | undefined;
+
+/**
+ * EIP-712 payload of a typed data request, sent as JSON or as an object
+ */
+export const parseTypedData = (
+	typedData: unknown,
+): TypedDataDefinition & { domain?: Record<string, unknown> } => {
+	const parsed =
+		typeof typedData === "string" ? JSON.parse(typedData) : typedData;
+	if (!parsed?.types || !parsed.primaryType || !parsed.message) {
+		throw new Error("Typed data needs types, primaryType and message");
+	}
+	return parsed;
+};
+
+// Readable text for a personal_sign message, hex when it is binary
+const decodeMessage = (message: string) => {
+	if (!isHex(message)) return message;
+	try {
+		const text = hexToString(message);
+		return /^[^\p{Cc}\uFFFD]*$/u.test(text.replace(/[\n\r\t]/g, ""))
+			? text
+			: message;
+	} catch {
+		return message;
+	}
+};
+
+const formatValue = (value: unknown) => {
+	const text = typeof value === "string" ? value : JSON.stringify(value);
+	return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+/**
+ * Plain-text prompt telling the user what they are asked to sign
+ */
+export const describeSignRequest = (
+	request: SignRequestData & { method: SignatureMethod },
+) => {
+	const chain = getChain(request.chainId)?.name ?? `chain ${request.chainId}`;
+	const lines = [
+		`✍️ Signature request on ${chain}`,
+		`Signer: ${extractSignerAddress(request)}`,
+		"",
+	];
+
+	switch (request.method) {
+		case "personal_sign": {
+			const [message] = request.params as PersonalSignParams;
+			lines.push("Message:", decodeMessage(message));
+			break;
+		}
+		case "eth_sign": {
+			const [, hash] = request.params as EthSignParams;
+			lines.push(
+				`Hash: ${hash}`,
+				"⚠️ eth_sign signs a raw hash, only sign it if you trust where it came from.",
+			);
+			break;
+		}
+		case "eth_signTypedData":
+		case "eth_signTypedData_v4": {
+			const [, typedData] = request.params as [Address, unknown];
+			const { domain = {}, primaryType, message } = parseTypedData(typedData);
+			const name = [domain.name, domain.version && `v${domain.version}`]
+				.filter(Boolean)
+				.join(" ");
+			lines.push(
+				`Domain: ${name || "unnamed"}${domain.chainId ? ` (chain ${domain.chainId})` : ""}`,
+				...(domain.verifyingContract
+					? [`Contract: ${domain.verifyingContract}`]
+					: []),
+				`Type: ${primaryType}`,
+				...Object.entries(message).map(
+					([field, value]) => `- ${field}: ${formatValue(value)}`,
+				),
+			);
+			break;
+		}
+	}
+
+	lines.push(
+		"",
+		"Sign it in your wallet and reply to this message with the signature (0x…).",
+	);
+	return lines.join("\n");
+};
+
+/**
+ * Whether `signature` is the expected signer's signature for the request
+ *
+ * Goes through the chain's public client when viem knows the chain, which
+ * also checks smart wallet signatures (ERC-1271 / ERC-6492); plain ECDSA
+ * recovery otherwise.
+ */
+export const verifySignRequest = async (
+	request: SignRequestData & { method: SignatureMethod },
+	signature: Hex,
+	getClient = getPublicClient,
+): Promise<boolean> => {
+	const address = extractSignerAddress(request);
+	const client = getClient(request.chainId);
+
+	switch (request.method) {
+		case "personal_sign": {
+			const [raw] = request.params as PersonalSignParams;
+			const message = isHex(raw) ? { raw } : raw;
+			return client
+				? client.verifyMessage({ address, message, signature })
+				: verifyMessage({ address, message, signature });
+		}
+		case "eth_sign": {
+			const [, hash] = request.params as EthSignParams;
+			return client
+				? verifyHashOnChain(client, { address, hash, signature })
+				: verifyHash({ address, hash, signature });
+		}
+		case "eth_signTypedData":
+		case "eth_signTypedData_v4": {
+			const [, typedData] = request.params as [Address, unknown];
+			const definition = parseTypedData(typedData);
+			return client
+				? client.verifyTypedData({ ...definition, address, signature })
+				: verifyTypedData({ ...definition, address, signature });
+		}
+	}
+};
@@ -0,0 +1,63 @@
+import { shortAddress } from "@/helpers/calldata-decoder";
+
+// What happens to a request whose signer is not linked to the sender's inbox:
+// refuse it, pass it on with a warning, or send it for the sender's address
+export type SignerPolicy = "reject" | "warn" | "rewrite";
+
+export const isSignerPolicy = (value: unknown): value is SignerPolicy =>
+	value === "reject" || value === "warn" || value === "rewrite";
+
+export type SignerCheck =
+	| { status: "linked"; address: `0x${string}` }
+	| {
+			status: "mismatch";
+			requested: `0x${string}`;
+			// What to do about it, `rewrite` falls back to `reject` when the inbox
+			// has no address to rewrite to
+			action: SignerPolicy;
+	  };
+
+/**
+ * Match the signer of a request against every address linked to the sender's
+ * inbox, smart wallets included
+ */
+export const checkSigner = (
+	requested: `0x${string}`,
+	linkedAddresses: string[],
+	policy: SignerPolicy,
+): SignerCheck => {
+	const linked = linkedAddresses.find(
+		(address) => address.toLowerCase() === requested.toLowerCase(),
+	);
+	if (linked) return { status: "linked", address: requested };
+
+	const action =
+		policy === "rewrite" && linkedAddresses.length === 0 ? "reject" : policy;
+	return { status: "mismatch", requested, action };
+};
+
+const listAddresses = (addresses: string[]) =>
+	addresses.length > 0
+		? addresses.map(shortAddress).join(", ")
+		: "none, this inbox has no linked wallet";
+
+/**
+ * Plain-text explanation of a signer mismatch for the user
+ *
+ * @param kind - What was requested, "transaction" or "signature request"
+ */
+export const describeSignerMismatch = (
+	{ requested, action }: Extract<SignerCheck, { status: "mismatch" }>,
+	linkedAddresses: string[],
+	kind: string,
+) => {
+	const mismatch = `This ${kind} is for ${shortAddress(requested)}, which isn't linked to your XMTP inbox (linked: ${listAddresses(linkedAddresses)}).`;
+	switch (action) {
+		case "reject":
+			return `⚠️ ${mismatch} I didn't send it.`;
+		case "warn":
+			return `⚠️ ${mismatch} Only sign it if you control that wallet.`;
+		case "rewrite":
+			return `⚠️ ${mismatch} I prepared it for ${shortAddress(linkedAddresses[0] ?? "")} instead, check the details before signing.`;
+	}
+};
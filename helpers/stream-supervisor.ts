@@ -0,0 +1,151 @@
+/**
+ * Stream supervisor
+ *
+ * Keeps the XMTP message stream running: restarts it with exponential backoff
+ * and full jitter, forgives past failures once a session has been stable for a
+ * while, and gives up only after `maxRetries` failures in a row.
+ */
+
+import { logger } from "@/helpers/logger";
+
+export interface StreamSession {
+	// 1 for the first session, incremented on every restart
+	attempt: number;
+	// Whether a previous session ran before this one
+	isReconnect: boolean;
+	// Report a failure from a callback (e.g. the SDK's `onFail`)
+	fail: (error?: unknown) => void;
+}
+
+export interface StreamSupervisorStatus {
+	running: boolean;
+	retriesLeft: number;
+	consecutiveFailures: number;
+	sessionStartedAt: number | null;
+}
+
+export interface StreamSupervisor {
+	start: () => void;
+	stop: () => void;
+	status: () => StreamSupervisorStatus;
+}
+
+/**
+ * Calculate the delay before the next restart
+ * Full jitter: a random delay between 0 and the capped exponential backoff
+ */
+export const getBackoffDelayMs = (
+	failures: number,
+	baseDelayMs: number,
+	maxDelayMs: number,
+	random: () => number = Math.random,
+): number => {
+	const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (failures - 1));
+	return Math.round(random() * ceiling);
+};
+
+export const createStreamSupervisor = ({
+	run,
+	maxRetries,
+	baseDelayMs,
+	maxDelayMs,
+	stableAfterMs,
+	onGiveUp,
+}: {
+	// Runs one stream session, settles when the stream ends or fails
+	run: (session: StreamSession) => Promise<void>;
+	maxRetries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	// A session that lived this long resets the failure counter
+	stableAfterMs: number;
+	onGiveUp: () => void;
+}): StreamSupervisor => {
+	let sessionCount = 0;
+	// Attempt number of the live session, 0 when none is live
+	let currentSession = 0;
+	let consecutiveFailures = 0;
+	let sessionStartedAt: number | null = null;
+	let running = false;
+	let restartTimer: ReturnType<typeof setTimeout> | undefined;
+
+	const scheduleRestart = (sessionAttempt: number, error?: unknown) => {
+		// Ignore late or repeated signals from sessions that already ended
+		if (!running || sessionAttempt !== currentSession) return;
+		currentSession = 0;
+
+		const uptime = sessionStartedAt ? Date.now() - sessionStartedAt : 0;
+		sessionStartedAt = null;
+
+		if (uptime >= stableAfterMs) {
+			consecutiveFailures = 0;
+		}
+		consecutiveFailures++;
+
+		if (error) {
+			logger.error("Stream error", { uptimeMs: uptime, error });
+		} else {
+			logger.info("Stream ended", { uptimeMs: uptime });
+		}
+
+		if (consecutiveFailures > maxRetries) {
+			logger.error("Max retries reached, giving up on the stream");
+			running = false;
+			onGiveUp();
+			return;
+		}
+
+		const delay = getBackoffDelayMs(
+			consecutiveFailures,
+			baseDelayMs,
+			maxDelayMs,
+		);
+		logger.info("Restarting stream", {
+			delayMs: delay,
+			retriesLeft: maxRetries - consecutiveFailures,
+		});
+
+		restartTimer = setTimeout(() => {
+			restartTimer = undefined;
+			startSession();
+		}, delay);
+	};
+
+	const startSession = () => {
+		if (!running) return;
+
+		const sessionAttempt = ++sessionCount;
+		currentSession = sessionAttempt;
+		sessionStartedAt = Date.now();
+
+		run({
+			attempt: sessionAttempt,
+			isReconnect: sessionAttempt > 1,
+			fail: (error) => scheduleRestart(sessionAttempt, error),
+		}).then(
+			() => scheduleRestart(sessionAttempt),
+			(error) => scheduleRestart(sessionAttempt, error),
+		);
+	};
+
+	return {
+		start: () => {
+			if (running) return;
+			running = true;
+			startSession();
+		},
+		stop: () => {
+			running = false;
+			if (restartTimer) {
+				clearTimeout(restartTimer);
+				restartTimer = undefined;
+			}
+		},
+		status: () => ({
+			running,
+			retriesLeft: Math.max(0, maxRetries - consecutiveFailures),
+			consecutiveFailures,
+			sessionStartedAt,
+		}),
+	};
+};
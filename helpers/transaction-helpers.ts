@@ -1,6 +1,7 @@
 import type { WalletSendCallsParams } from "@xmtp/content-type-wallet-send-calls";
 import type { SignRequestData } from "near-safe";
 import { toHex } from "viem";
+import { describeCall } from "@/helpers/calldata-decoder";
 
 // Define the generate-evm-tx tool response type
 interface GenerateEvmTxResponse {
@@ -12,12 +13,16 @@ function chainIdToHex(chainId: number): `0x${string}` {
 	return toHex(chainId) as `0x${string}`;
 }
 
-function generateMetadata(method: string): {
+function generateMetadata(
+	method: string,
+	// What the call does, shown in the wallet confirmation sheet
+	description = `Execute ${method} transaction`,
+): {
 	description: string;
 	transactionType: string;
 } {
 	return {
-		description: `Execute ${method} transaction`,
+		description,
 		transactionType: method,
 	};
 }
@@ -44,106 +49,30 @@ export async function convertEvmTxToWalletSendCalls(
 				version: "1.0",
 				chainId: chainIdToHex(chainId),
 				from: userAddress,
-				calls: transactions.map((tx, index) => ({
-					to: tx.to,
-					data: tx.data,
-					value: tx.value,
-					metadata: {
-						...generateMetadata(method),
-						callIndex: String(index),
-					},
-				})),
-			};
-		}
-
-		case "personal_sign": {
-			// Handle personal_sign - params: [message, address]
-			const [message, signerAddress] = params as [`0x${string}`, `0x${string}`];
-
-			// Create a contract call that represents the signing operation
-			// This is a pseudo-transaction that represents a signing request
-			return {
-				version: "1.0",
-				chainId: chainIdToHex(chainId),
-				from: signerAddress,
-				calls: [
-					{
-						// No 'to' address for signing operations
-						data: message,
+				calls: await Promise.all(
+					transactions.map(async (tx, index) => ({
+						to: tx.to,
+						data: tx.data,
+						value: tx.value,
 						metadata: {
-							description: `Sign personal message`,
-							transactionType: "personal_sign",
-							messageHash: message,
-							signer: signerAddress,
+							...generateMetadata(
+								method,
+								await describeCall({ chainId, ...tx }),
+							),
+							callIndex: String(index),
 						},
-					},
-				],
-			};
-		}
-
-		case "eth_sign": {
-			// Handle eth_sign - params: [address, message]
-			const [signerAddress, message] = params as [`0x${string}`, `0x${string}`];
-
-			return {
-				version: "1.0",
-				chainId: chainIdToHex(chainId),
-				from: signerAddress,
-				calls: [
-					{
-						data: message,
-						metadata: {
-							description: `Sign message with eth_sign`,
-							transactionType: "eth_sign",
-							messageHash: message,
-							signer: signerAddress,
-						},
-					},
-				],
+					})),
+				),
 			};
 		}
 
+		case "personal_sign":
+		case "eth_sign":
 		case "eth_signTypedData":
-		case "eth_signTypedData_v4": {
-			// Handle typed data signing - params: [address, typedDataJSON]
-			const [signerAddress, typedDataJSON] = params as [`0x${string}`, string];
-
-			let typedData: Record<string, unknown>;
-			try {
-				typedData = JSON.parse(typedDataJSON);
-			} catch (error) {
-				throw new Error(
-					`Failed to parse typed data: ${
-						error instanceof Error ? error.message : "Unknown error"
-					}`,
-				);
-			}
-
-			// Encode the typed data as calldata
-			const encodedData = toHex(
-				Buffer.from(typedDataJSON, "utf-8"),
-			) as `0x${string}`;
-
-			return {
-				version: "1.0",
-				chainId: chainIdToHex(chainId),
-				from: signerAddress,
-				calls: [
-					{
-						data: encodedData,
-						metadata: {
-							description: `Sign typed data (${
-								method === "eth_signTypedData_v4" ? "v4" : "v1"
-							})`,
-							transactionType: method,
-							signer: signerAddress,
-							typedDataHash: encodedData,
-							domain: JSON.stringify(typedData.domain || {}),
-						},
-					},
-				],
-			};
-		}
+		case "eth_signTypedData_v4":
+			// Signatures go through `describeSignRequest` / `verifySignRequest`,
+			// a wallet would treat these as a bogus transaction
+			throw new Error(`${method} is a signature request, not a transaction`);
 
 		default: {
 			// Exhaustive type checking
@@ -0,0 +1,164 @@
+import type { WalletSendCallsParams } from "@xmtp/content-type-wallet-send-calls";
+import {
+	BaseError,
+	type Call,
+	decodeErrorResult,
+	HttpRequestError,
+	hexToNumber,
+	isHex,
+	type PublicClient,
+	TimeoutError,
+	toHex,
+} from "viem";
+import { getPublicClient } from "@/helpers/chains";
+
+export type SimulationResult =
+	// Gas per call, undefined for calls that could not be estimated
+	| { status: "ok"; gas: (bigint | undefined)[] }
+	| { status: "failed"; callIndex: number; reason: string }
+	// No RPC for the chain or it did not answer, the calls go out unchecked
+	| { status: "unavailable"; reason: string };
+
+// Headroom on top of the estimate, state can change before the user signs
+const GAS_BUFFER_PERCENT = 20n;
+
+/**
+ * Readable reason of a failed call: the revert string, the panic code, the
+ * custom error selector or whatever the node said
+ */
+export const describeRevertError = (error: unknown): string => {
+	if (!(error instanceof BaseError)) {
+		return error instanceof Error ? error.message : String(error);
+	}
+
+	// `raw` on the contract errors of `simulateCalls`, `data` elsewhere
+	const revertData = (cause: unknown) => {
+		const { data, raw } = (cause ?? {}) as { data?: unknown; raw?: unknown };
+		if (isHex(data)) return data;
+		if (isHex(raw)) return raw;
+		return undefined;
+	};
+	const data = revertData(error.walk((cause) => Boolean(revertData(cause))));
+	if (data && data !== "0x") {
+		try {
+			const { errorName, args } = decodeErrorResult({ abi: [], data });
+			if (errorName === "Error") return String(args?.[0]);
+			if (errorName === "Panic")
+				return `panic code ${toHex(Number(args?.[0]))}`;
+		} catch {
+			return `custom error ${data.slice(0, 10)}`;
+		}
+	}
+	return error.details || error.shortMessage;
+};
+
+// The RPC could not be reached, which says nothing about the calls
+const isRpcUnavailable = (error: unknown) =>
+	error instanceof BaseError &&
+	Boolean(
+		error.walk(
+			(cause) =>
+				cause instanceof HttpRequestError || cause instanceof TimeoutError,
+		),
+	);
+
+const toCallRequests = ({ from, calls }: WalletSendCallsParams) =>
+	calls.map(({ to, data, value }) => ({
+		account: from,
+		to,
+		data,
+		value: value ? BigInt(value) : undefined,
+	}));
+
+/**
+ * Run every call from the sender's address with `eth_call` and `estimateGas`
+ *
+ * Calls are simulated one by one against the current state, so a call that
+ * relies on an earlier one in the batch (a swap after its approval) can't be
+ * checked: only a failing first call fails the simulation, later failures
+ * leave that call without a gas estimate.
+ */
+const simulateEachCall = async (
+	client: PublicClient,
+	params: WalletSendCallsParams,
+): Promise<SimulationResult> => {
+	const gas: (bigint | undefined)[] = [];
+	for (const [callIndex, request] of toCallRequests(params).entries()) {
+		try {
+			await client.call(request);
+			gas.push(await client.estimateGas(request));
+		} catch (error) {
+			if (isRpcUnavailable(error)) {
+				return { status: "unavailable", reason: describeRevertError(error) };
+			}
+			if (callIndex === 0) {
+				return {
+					status: "failed",
+					callIndex,
+					reason: describeRevertError(error),
+				};
+			}
+			gas.push(undefined);
+		}
+	}
+	return { status: "ok", gas };
+};
+
+/**
+ * Run the calls from the sender's address before they reach the wallet
+ *
+ * The whole batch goes into one `eth_simulateV1` request, each call running
+ * on the state the earlier ones left, so any reverting call fails the
+ * simulation and the gas each call used becomes its estimate. RPCs without
+ * `eth_simulateV1` fall back to `simulateEachCall`.
+ */
+export const simulateWalletSendCalls = async (
+	params: WalletSendCallsParams,
+	getClient: (chainId: number) => PublicClient | undefined = getPublicClient,
+): Promise<SimulationResult> => {
+	const client = getClient(hexToNumber(params.chainId));
+	if (!client) return { status: "unavailable", reason: "unsupported chain" };
+
+	try {
+		const { results } = await client.simulateCalls({
+			account: params.from,
+			// contract creations have no `to`, which `Call` does not allow for
+			calls: toCallRequests(params).map(({ account, ...call }) => call as Call),
+		});
+
+		const callIndex = results.findIndex(({ status }) => status === "failure");
+		const failed = results[callIndex];
+		if (failed) {
+			return {
+				status: "failed",
+				callIndex,
+				reason: failed.error ? describeRevertError(failed.error) : "reverted",
+			};
+		}
+		return { status: "ok", gas: results.map(({ gasUsed }) => gasUsed) };
+	} catch (error) {
+		if (isRpcUnavailable(error)) {
+			return { status: "unavailable", reason: describeRevertError(error) };
+		}
+		// most likely `eth_simulateV1` is not supported
+		return simulateEachCall(client, params);
+	}
+};
+
+/**
+ * Attach simulated gas, with some headroom, to the calls
+ */
+export const withGasEstimates = (
+	params: WalletSendCallsParams,
+	gas: (bigint | undefined)[],
+): WalletSendCallsParams => ({
+	...params,
+	calls: params.calls.map((call, index) => {
+		const estimate = gas[index];
+		if (estimate === undefined) return call;
+		return {
+			...call,
+			gas: toHex((estimate * (100n + GAS_BUFFER_PERCENT)) / 100n),
+		};
+	}),
+});
@@ -0,0 +1,207 @@
+import { createJsonStore } from "@/helpers/json-store";
+import type { CompletionResponse } from "@/helpers/message-handler";
+
+export type TokenUsage = NonNullable<CompletionResponse["usage"]>;
+
+// "agent" is the completion answering a message, "reaction" the emoji call
+export type UsageSource = "agent" | "reaction";
+export type UsageScope = "sender" | "conversation";
+export type UsagePeriod = "daily" | "monthly";
+
+interface UsageCounter {
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+}
+
+interface UsageData {
+	// Period ("2026-10-19" or "2026-10", UTC) to subject ("sender:0x…" or
+	// "conversation:<id>") to usage by source
+	periods: Record<
+		string,
+		Record<string, Partial<Record<UsageSource, UsageCounter>>>
+	>;
+}
+
+/**
+ * Token budgets of agent completions, missing or 0 means unlimited
+ * Reactions are tracked but never count towards a quota.
+ */
+export type UsageQuotas = Record<
+	UsageScope,
+	Partial<Record<UsagePeriod, number>>
+>;
+
+export type QuotaDecision =
+	| { exceeded: false }
+	| {
+			exceeded: true;
+			scope: UsageScope;
+			period: UsagePeriod;
+			used: number;
+			limit: number;
+			// True the first time this quota is hit in the period
+			notify: boolean;
+	  };
+
+export interface UsageRecord {
+	period: string;
+	scope: UsageScope;
+	// Sender address or conversation ID
+	id: string;
+	source: UsageSource;
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+}
+
+interface UsageSubject {
+	senderAddress: string;
+	conversationId: string;
+}
+
+export interface UsageTracker {
+	record: (
+		params: UsageSubject & { source: UsageSource; usage: TokenUsage },
+	) => void;
+	checkQuota: (subject: UsageSubject) => QuotaDecision;
+	// Every counter, optionally only periods starting with `periodPrefix`
+	report: (periodPrefix?: string) => UsageRecord[];
+	flush: () => Promise<void>;
+}
+
+// NaN or Infinity would stick in the counters and turn quotas off for good
+const tokenCount = (tokens: number) => (Number.isFinite(tokens) ? tokens : 0);
+
+const periodKeys = (time: number): Record<UsagePeriod, string> => {
+	const day = new Date(time).toISOString().slice(0, 10);
+	return { daily: day, monthly: day.slice(0, 7) };
+};
+
+const subjectKeys = ({
+	senderAddress,
+	conversationId,
+}: UsageSubject): Record<UsageScope, string> => ({
+	sender: `sender:${senderAddress.toLowerCase()}`,
+	conversation: `conversation:${conversationId}`,
+});
+
+/**
+ * Persistent token usage per sender address and conversation, by day and
+ * by month
+ *
+ * @param filePath - Where to keep the counters, see `getUsagePath`
+ * @param quotas - Token budgets checked before a message goes to the agent
+ * @param retainDays - How long daily counters are kept, monthly ones stay
+ *   for a year
+ */
+export const createUsageTracker = ({
+	filePath,
+	quotas = { sender: {}, conversation: {} },
+	retainDays = 90,
+	now = Date.now,
+}: {
+	filePath: string;
+	quotas?: UsageQuotas;
+	retainDays?: number;
+	now?: () => number;
+}): UsageTracker => {
+	const store = createJsonStore<UsageData>(filePath, { periods: {} });
+	// Quotas already announced, by "<period>|<subject>"
+	const notified = new Set<string>();
+	let lastDay: string | undefined;
+
+	const prune = (day: string) => {
+		const time = new Date(day).getTime();
+		const oldestDay = periodKeys(time - retainDays * 86_400_000).daily;
+		const oldestMonth = periodKeys(time - 365 * 86_400_000).monthly;
+
+		for (const period of Object.keys(store.data.periods)) {
+			const oldest = period.length > 7 ? oldestDay : oldestMonth;
+			if (period < oldest) delete store.data.periods[period];
+		}
+		// keep this month's notices, the month quota is still used up
+		for (const key of notified) {
+			if (!key.startsWith(day) && !key.startsWith(`${day.slice(0, 7)}|`)) {
+				notified.delete(key);
+			}
+		}
+	};
+
+	const agentTokens = (period: string, subject: string) => {
+		const counter = store.data.periods[period]?.[subject]?.agent;
+		return counter ? counter.promptTokens + counter.completionTokens : 0;
+	};
+
+	return {
+		record: ({ source, usage, ...subject }) => {
+			const periods = periodKeys(now());
+			if (periods.daily !== lastDay) {
+				lastDay = periods.daily;
+				prune(periods.daily);
+			}
+
+			for (const period of Object.values(periods)) {
+				for (const key of Object.values(subjectKeys(subject))) {
+					store.data.periods[period] ??= {};
+					store.data.periods[period][key] ??= {};
+					const bySource = store.data.periods[period][key];
+					const counter = bySource[source] ?? {
+						requests: 0,
+						promptTokens: 0,
+						completionTokens: 0,
+					};
+					bySource[source] = counter;
+					counter.requests++;
+					counter.promptTokens += tokenCount(usage.promptTokens);
+					counter.completionTokens += tokenCount(usage.completionTokens);
+				}
+			}
+			store.save();
+		},
+		checkQuota: (subject) => {
+			const periods = periodKeys(now());
+			const subjects = subjectKeys(subject);
+
+			for (const scope of ["sender", "conversation"] as const) {
+				for (const period of ["daily", "monthly"] as const) {
+					const limit = quotas[scope][period];
+					if (!limit) continue;
+
+					const used = agentTokens(periods[period], subjects[scope]);
+					if (used < limit) continue;
+
+					const key = `${periods[period]}|${subjects[scope]}`;
+					const notify = !notified.has(key);
+					notified.add(key);
+					return { exceeded: true, scope, period, used, limit, notify };
+				}
+			}
+			return { exceeded: false };
+		},
+		report: (periodPrefix = "") =>
+			Object.entries(store.data.periods)
+				.filter(([period]) => period.startsWith(periodPrefix))
+				.flatMap(([period, subjects]) =>
+					Object.entries(subjects).flatMap(([subject, bySource]) => {
+						const [scope, id] = subject.split(/:(.*)/) as [UsageScope, string];
+						return Object.entries(bySource).map(([source, counter]) => ({
+							period,
+							scope,
+							id,
+							source: source as UsageSource,
+							...counter,
+							totalTokens: counter.promptTokens + counter.completionTokens,
+						}));
+					}),
+				)
+				.sort(
+					(a, b) =>
+						a.period.localeCompare(b.period) ||
+						a.scope.localeCompare(b.scope) ||
+						b.totalTokens - a.totalTokens,
+				),
+		flush: store.flush,
+	};
+};
@@ -0,0 +1,32 @@
+import { createJsonStore } from "@/helpers/json-store";
+
+interface WelcomeData {
+	// Conversation ID to when the welcome message was sent (ms)
+	welcomed: Record<string, number>;
+}
+
+export interface WelcomeTracker {
+	hasWelcomed: (conversationId: string) => boolean;
+	markWelcomed: (conversationId: string) => void;
+	flush: () => Promise<void>;
+}
+
+/**
+ * Persistent record of conversations that already got the welcome message
+ */
+export const createWelcomeTracker = ({
+	filePath,
+}: {
+	filePath: string;
+}): WelcomeTracker => {
+	const store = createJsonStore<WelcomeData>(filePath, { welcomed: {} });
+
+	return {
+		hasWelcomed: (conversationId) => conversationId in store.data.welcomed,
+		markWelcomed: (conversationId) => {
+			store.data.welcomed[conversationId] = Date.now();
+			store.save();
+		},
+		flush: store.flush,
+	};
+};
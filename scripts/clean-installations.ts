@@ -1,6 +1,7 @@
 import { Client } from "@xmtp/node-sdk";
 import { createSigner, getEncryptionKeyFromHex } from "@/helpers/client.ts";
 import { ENCRYPTION_KEY, WALLET_KEY, XMTP_ENV } from "@/helpers/config";
+import { logger } from "@/helpers/logger";
 
 /**
  * Standalone Installation Cleaner
@@ -11,17 +12,17 @@ import { ENCRYPTION_KEY, WALLET_KEY, XMTP_ENV } from "@/helpers/config";
 
 async function cleanAllInstallations() {
 	try {
-		console.log(
+		logger.info(
 			"🧹 Starting complete installation cleanup (removing ALL installations)...",
 		);
 
 		// Create signer
 		const signer = createSigner(WALLET_KEY);
 		const identifier = await signer.getIdentifier();
-		console.log(`📧 Wallet address: ${identifier.identifier}`);
+		logger.info(`📧 Wallet address: ${identifier.identifier}`);
 
 		// We need to get the InboxID first - create a temporary client to get it
-		console.log("🔍 Getting InboxID...");
+		logger.info("🔍 Getting InboxID...");
 
 		let inboxId: string;
 		try {
@@ -33,38 +34,38 @@ async function cleanAllInstallations() {
 			});
 
 			inboxId = tempClient.inboxId;
-			console.log(`📦 InboxID: ${inboxId}`);
+			logger.info(`📦 InboxID: ${inboxId}`);
 		} catch (error) {
 			// If client creation fails, extract InboxID from error message
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
-			console.log(`🔍 Error message: ${errorMessage}`);
+			logger.info(`🔍 Error message: ${errorMessage}`);
 			const inboxIdMatch = errorMessage.match(/InboxID ([a-f0-9]+)/);
 
 			if (!inboxIdMatch) {
-				console.log("❌ Could not find InboxID pattern in error message");
-				console.log("   Looking for pattern: /InboxID ([a-f0-9]+)/");
+				logger.info("❌ Could not find InboxID pattern in error message");
+				logger.info("Looking for pattern: /InboxID ([a-f0-9]+)/");
 				throw new Error("Could not extract InboxID from error message");
 			}
 
 			inboxId = inboxIdMatch[1];
-			console.log(`📦 InboxID (from error): ${inboxId}`);
+			logger.info(`📦 InboxID (from error): ${inboxId}`);
 		}
 
 		// Get current installations using static method
-		console.log("📊 Getting current installations...");
+		logger.info("📊 Getting current installations...");
 		const inboxState = await Client.inboxStateFromInboxIds([inboxId], XMTP_ENV);
 		const currentInstallations = inboxState[0].installations;
 
-		console.log(`✓ Current installations: ${currentInstallations.length}`);
+		logger.info(`✓ Current installations: ${currentInstallations.length}`);
 
 		// Check if cleanup is needed
 		if (currentInstallations.length === 0) {
-			console.log("✅ No installations found - already clean");
+			logger.info("✅ No installations found - already clean");
 			return;
 		}
 
-		console.log(
+		logger.warn(
 			`⚠️  Will remove ALL ${currentInstallations.length} installations`,
 		);
 
@@ -81,15 +82,15 @@ async function cleanAllInstallations() {
 			}),
 		);
 
-		console.log("📋 ALL installations to revoke:");
+		logger.info("📋 ALL installations to revoke:");
 		installationsToRevokeInfo.forEach((inst) => {
-			console.log(
-				`  ${inst.index}. ${inst.id} (${inst.clientTimestampNs || "unknown ts"})`,
+			logger.info(
+				`${inst.index}. ${inst.id} (${inst.clientTimestampNs || "unknown ts"})`,
 			);
 		});
 
-		console.log(
-			`\n🔄 Revoking ALL ${currentInstallations.length} installations...`,
+		logger.info(
+			`🔄 Revoking ALL ${currentInstallations.length} installations...`,
 		);
 
 		// Revoke ALL installations
@@ -100,7 +101,7 @@ async function cleanAllInstallations() {
 			XMTP_ENV,
 		);
 
-		console.log(
+		logger.info(
 			`✅ Successfully revoked ALL ${currentInstallations.length} installations`,
 		);
 
@@ -111,34 +112,29 @@ async function cleanAllInstallations() {
 		);
 		const finalInstallations = finalInboxState[0].installations;
 
-		console.log(`\n📊 Final state:`);
-		console.log(`  Installations: ${finalInstallations.length}`);
-		console.log(`  Status: ✅ Completely clean - ready for fresh start`);
+		logger.info(`📊 Final state:`);
+		logger.info(`Installations: ${finalInstallations.length}`);
+		logger.info(`Status: ✅ Completely clean - ready for fresh start`);
 
-		console.log(
-			"\n🎉 Complete cleanup finished! You can now start the server:",
-		);
-		console.log("   yarn start");
-		console.log(
-			"\nNote: The server will create a new installation automatically when it starts.",
+		logger.info("🎉 Complete cleanup finished! You can now start the server:");
+		logger.info("yarn start");
+		logger.info(
+			"Note: The server will create a new installation automatically when it starts.",
 		);
 	} catch (error) {
-		console.error(
-			"❌ Cleanup failed:",
-			error instanceof Error ? error.message : String(error),
-		);
-		console.error("\nTroubleshooting:");
-		console.error(
+		logger.error("❌ Cleanup failed", { error });
+		logger.error("Troubleshooting:");
+		logger.error(
 			"1. Check your .env file has correct WALLET_KEY, ENCRYPTION_KEY, and XMTP_ENV",
 		);
-		console.error("2. Make sure you have network connectivity");
-		console.error("3. Try running the script again");
+		logger.error("2. Make sure you have network connectivity");
+		logger.error("3. Try running the script again");
 		process.exit(1);
 	}
 }
 
 // Run the cleanup
 cleanAllInstallations().catch((error) => {
-	console.error("💥 Unexpected error:", error);
+	logger.error("💥 Unexpected error", { error });
 	process.exit(1);
 });
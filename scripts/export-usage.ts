@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Token Usage Export
+ *
+ * This script prints the agent's token usage per sender address and per
+ * conversation, for billing and abuse review.
+ *
+ * Usage: bun export-usage [--period 2026-10] [--format csv|json]
+ * The period matches by prefix, so "2026-10" covers the month and every
+ * day in it.
+ */
+
+import { parseArgs } from "node:util";
+import { getUsagePath } from "@/helpers/client";
+import { XMTP_ENV } from "@/helpers/config";
+import { logger } from "@/helpers/logger";
+import { createUsageTracker, type UsageRecord } from "@/helpers/usage-tracker";
+
+const COLUMNS: (keyof UsageRecord)[] = [
+	"period",
+	"scope",
+	"id",
+	"source",
+	"requests",
+	"promptTokens",
+	"completionTokens",
+	"totalTokens",
+];
+
+const toCsv = (records: UsageRecord[]) =>
+	[
+		COLUMNS.join(","),
+		...records.map((record) =>
+			COLUMNS.map((column) => JSON.stringify(record[column])).join(","),
+		),
+	].join("\n");
+
+function exportUsage() {
+	const { values } = parseArgs({
+		options: {
+			period: { type: "string", default: "" },
+			format: { type: "string", default: "csv" },
+		},
+	});
+
+	if (values.format !== "csv" && values.format !== "json") {
+		logger.error(`❌ Unknown format ${values.format}, use csv or json`);
+		process.exit(1);
+	}
+
+	const records = createUsageTracker({
+		filePath: getUsagePath(XMTP_ENV),
+	}).report(values.period);
+
+	// Only the data goes to stdout, so the output can be redirected to a file
+	process.stdout.write(
+		`${values.format === "json" ? JSON.stringify(records, null, 2) : toCsv(records)}\n`,
+	);
+}
+
+try {
+	exportUsage();
+} catch (error) {
+	logger.error("💥 Usage export failed", { error });
+	process.exit(1);
+}
@@ -2,16 +2,17 @@ import { readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { generateEncryptionKeyHex } from "@/helpers/client";
+import { logger } from "@/helpers/logger";
 
 // Check Node.js version
 const nodeVersion = process.versions.node;
 const [major] = nodeVersion.split(".").map(Number);
 if (major < 20) {
-	console.error("Error: Node.js version 20 or higher is required");
+	logger.error("Error: Node.js version 20 or higher is required");
 	process.exit(1);
 }
 
-console.log("Generating keys for example...");
+logger.info("Generating keys for example...");
 
 const walletKey = generatePrivateKey();
 const account = privateKeyToAccount(walletKey);
@@ -23,16 +24,16 @@ const exampleDir = process.cwd();
 const exampleName = exampleDir.split("/").pop() || "example";
 const filePath = join(exampleDir, ".env");
 
-console.log(`Creating .env file in: ${exampleDir}`);
+logger.info(`Creating .env file in: ${exampleDir}`);
 
 // Read existing .env file if it exists
 let existingEnv = "";
 try {
 	existingEnv = await readFile(filePath, "utf-8");
-	console.log("Found existing .env file");
+	logger.info("Found existing .env file");
 } catch {
 	// File doesn't exist, that's fine
-	console.log("No existing .env file found, creating new one");
+	logger.info("No existing .env file found, creating new one");
 }
 
 // Check if XMTP_ENV is already set
@@ -46,5 +47,5 @@ ${!xmtpEnvExists ? "XMTP_ENV=dev\n" : ""}# public key is ${publicKey}
 
 // Write the .env file to the example directory
 await writeFile(filePath, envContent, { flag: "a" });
-console.log(`Keys written to ${filePath}`);
-console.log(`Public key: ${publicKey}`);
+logger.info(`Keys written to ${filePath}`);
+logger.info(`Public key: ${publicKey}`);
@@ -10,6 +10,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { logger } from "@/helpers/logger";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,14 +32,14 @@ function getDbDirectory() {
  */
 async function cleanLocalDatabase() {
 	try {
-		console.log("🧹 Starting local database cleanup...");
+		logger.info("🧹 Starting local database cleanup...");
 
 		const dbDirectory = getDbDirectory();
-		console.log(`📁 Database directory: ${dbDirectory}`);
+		logger.info(`📁 Database directory: ${dbDirectory}`);
 
 		// Check if database directory exists
 		if (!fs.existsSync(dbDirectory)) {
-			console.log("✅ Database directory doesn't exist - nothing to clean");
+			logger.info("✅ Database directory doesn't exist - nothing to clean");
 			return;
 		}
 
@@ -49,54 +50,49 @@ async function cleanLocalDatabase() {
 				file.endsWith(".db3") ||
 				file.endsWith(".db3.sqlcipher_salt") ||
 				file.endsWith(".db3-shm") ||
-				file.endsWith(".db3-wal"),
+				file.endsWith(".db3-wal") ||
+				file.endsWith(".store.json"),
 		);
 
 		if (dbFiles.length === 0) {
-			console.log("✅ No database files found - nothing to clean");
+			logger.info("✅ No database files found - nothing to clean");
 			return;
 		}
 
-		console.log(`📋 Found ${dbFiles.length} database files to clean:`);
+		logger.info(`📋 Found ${dbFiles.length} database files to clean:`);
 		dbFiles.forEach((file, index) => {
-			console.log(`  ${index + 1}. ${file}`);
+			logger.info(`${index + 1}. ${file}`);
 		});
 
-		console.log("\n🗑️  Removing database files...");
+		logger.info("🗑️  Removing database files...");
 
 		// Remove each database file
 		for (const file of dbFiles) {
 			const filePath = path.join(dbDirectory, file);
 			try {
 				fs.unlinkSync(filePath);
-				console.log(`  ✓ Removed: ${file}`);
+				logger.info(`✓ Removed: ${file}`);
 			} catch (error) {
-				console.error(
-					`  ❌ Failed to remove ${file}:`,
-					error instanceof Error ? error.message : String(error),
-				);
+				logger.error(`❌ Failed to remove ${file}`, { error });
 			}
 		}
 
-		console.log("\n✅ Database cleanup completed!");
-		console.log(
-			"\nNote: The agent will create a new database when it starts next time.",
+		logger.info("✅ Database cleanup completed!");
+		logger.info(
+			"Note: The agent will create a new database when it starts next time.",
 		);
 	} catch (error) {
-		console.error(
-			"❌ Database cleanup failed:",
-			error instanceof Error ? error.message : String(error),
-		);
-		console.error("\nTroubleshooting:");
-		console.error("1. Make sure no XMTP processes are running");
-		console.error("2. Check file permissions in the database directory");
-		console.error("3. Try running the script again");
+		logger.error("❌ Database cleanup failed", { error });
+		logger.error("Troubleshooting:");
+		logger.error("1. Make sure no XMTP processes are running");
+		logger.error("2. Check file permissions in the database directory");
+		logger.error("3. Try running the script again");
 		process.exit(1);
 	}
 }
 
 // Run the cleanup
 cleanLocalDatabase().catch((error) => {
-	console.error("💥 Unexpected error:", error);
+	logger.error("💥 Unexpected error", { error });
 	process.exit(1);
 });
@@ -1,59 +1,98 @@
 import { openai } from "@ai-sdk/openai";
+import { GroupUpdatedCodec } from "@xmtp/content-type-group-updated";
+import { ReactionCodec } from "@xmtp/content-type-reaction";
+import { ReplyCodec } from "@xmtp/content-type-reply";
+import { TextCodec } from "@xmtp/content-type-text";
+import { TransactionReferenceCodec } from "@xmtp/content-type-transaction-reference";
+import { WalletSendCallsCodec } from "@xmtp/content-type-wallet-send-calls";
 import {
-	ContentTypeGroupUpdated,
-	GroupUpdatedCodec,
-} from "@xmtp/content-type-group-updated";
-import {
-	ContentTypeReaction,
-	type Reaction,
-	ReactionCodec,
-} from "@xmtp/content-type-reaction";
-import {
-	ContentTypeReply,
-	type Reply,
-	ReplyCodec,
-} from "@xmtp/content-type-reply";
-import { ContentTypeText, TextCodec } from "@xmtp/content-type-text";
-import {
-	ContentTypeTransactionReference,
-	TransactionReferenceCodec,
-} from "@xmtp/content-type-transaction-reference";
-import {
-	ContentTypeWalletSendCalls,
-	WalletSendCallsCodec,
-} from "@xmtp/content-type-wallet-send-calls";
-import {
+	type AsyncStreamProxy,
 	Client,
 	ConsentState,
-	type DecodedMessage,
-	Dm,
+	type Dm,
 	type ExtractCodecContentTypes,
-	Group,
+	type Group,
 	LogLevel,
 } from "@xmtp/node-sdk";
-import { generateText } from "ai";
 import type { Address, Hex, Signature, TypedDataDomain } from "viem";
-import { sendToAgent } from "@/helpers/bitte-client";
+import type { AgentBackend } from "@/helpers/agent-backend";
+import { createAgentRouter, loadRoutingConfig } from "@/helpers/agent-router";
+import { createBitteBackend } from "@/helpers/bitte-client";
+import { catchUpMissedMessages } from "@/helpers/catch-up";
+import { configureRpcUrls } from "@/helpers/chains";
+import { createChatSessions } from "@/helpers/chat-sessions";
+import { createCircuitBreaker } from "@/helpers/circuit-breaker";
 import {
 	createSigner,
-	extractMessageContent,
 	getDbPath,
 	getEncryptionKeyFromHex,
+	getSessionsPath,
+	getStorePath,
+	getUsagePath,
 	logAgentDetails,
 } from "@/helpers/client";
 import {
+	createBuiltinCommands,
+	createCommandRegistry,
+} from "@/helpers/commands";
+import {
+	AGENT_BACKEND,
 	AGENT_CHAT_ID,
+	AGENT_ROUTES_FILE,
+	BITTE_AGENT_ID,
+	CONSENT_POLICY,
 	ENCRYPTION_KEY,
+	HISTORY_OPTIONS,
+	HTTP_PORT,
+	MAX_CONCURRENT_CONVERSATIONS,
+	MOCK_BACKEND_FILE,
+	OPENAI_API_KEY,
+	OPENAI_BASE_URL,
+	OPENAI_MODEL,
+	OUTBOUND_FORMAT,
+	QUOTA_MESSAGE,
+	RATE_LIMIT_MESSAGE,
+	RATE_LIMITS,
+	RPC_URLS,
+	SESSION_GROUP_SCOPE,
+	SESSION_IDLE_TIMEOUT,
+	SIGNER_POLICY,
+	SIMULATE_TRANSACTIONS,
+	USAGE_QUOTAS,
 	WALLET_KEY,
+	WELCOME_FORWARD_FIRST_MESSAGE,
+	WELCOME_MESSAGE_DM,
+	WELCOME_MESSAGE_GROUP,
 	XMTP_ENV,
 } from "@/helpers/config";
-
-// Import the transaction helpers
+import { createConsentManager } from "@/helpers/consent-policy";
+import { createConversationScheduler } from "@/helpers/conversation-scheduler";
+import { startHttpServer } from "@/helpers/http-server";
+import { logger } from "@/helpers/logger";
 import {
-	extractSignerAddress,
-	handleEvmTransaction,
-	validateEvmTxResponse,
-} from "@/helpers/transaction-helpers";
+	type AgentMessage,
+	type AgentService,
+	type CompletionResponse,
+	createMessageHandler,
+} from "@/helpers/message-handler";
+import { createMessageLedger } from "@/helpers/message-ledger";
+import { addCollector, metrics } from "@/helpers/metrics";
+import { createMockBackend } from "@/helpers/mock-backend";
+import {
+	createOpenAIBackend,
+	createReactionGenerator,
+} from "@/helpers/openai-backend";
+import { createMessageRateLimiter } from "@/helpers/rate-limiter";
+import { createReceiptWatcher } from "@/helpers/receipt-watcher";
+import { createGracefulShutdown, EXIT_CODES } from "@/helpers/shutdown";
+import { createSignatureRequests } from "@/helpers/signature-requests";
+import {
+	createStreamSupervisor,
+	type StreamSession,
+} from "@/helpers/stream-supervisor";
+import { simulateWalletSendCalls } from "@/helpers/transaction-simulator";
+import { createUsageTracker } from "@/helpers/usage-tracker";
+import { createWelcomeTracker } from "@/helpers/welcome-tracker";
 
 // [All your existing type definitions remain the same]
 export interface TypedDataTypes {
@@ -103,65 +142,9 @@ export type SignRequestData = {
 	params: SessionRequestParams;
 };
 
-// Type definitions for tool calls
-interface ToolCallWithArgs {
-	toolCallId: string;
-	toolName: string;
-	args: Record<string, unknown>;
-}
-
-interface ToolCallWithResult {
-	toolCallId: string;
-	result: {
-		data?: { evmSignRequest: SignRequestData } | { swapArgs: SwapArgs };
-		error?: string;
-	};
-	ui?: Record<string, unknown>;
-}
-
-type ToolCall = ToolCallWithArgs | ToolCallWithResult;
-
-interface SwapArgs {
-	sellToken: string;
-	buyToken: string;
-}
-
-interface CompletionResponse {
-	toolCalls?: ToolCall[];
-	content: string;
-	raw?: string;
-	finishReason?: string;
-	usage?: {
-		promptTokens: number;
-		completionTokens: number;
-	} | null;
-	isContinued?: boolean;
-	isError?: boolean;
-}
-
 // [All your existing constants and helper functions remain the same]
-export const generateReaction = async ({
-	messageContent,
-	reference,
-	referenceInboxId,
-}: {
-	messageContent: string;
-	reference: string;
-	referenceInboxId?: string;
-}): Promise<Reaction> => {
-	const emoji = await generateText({
-		model: openai("gpt-4.1-nano"),
-		prompt: `Return only a single emoji that matches the sentiment of this message: ${messageContent}. Do not include any other text or explanation.`,
-	});
-
-	return {
-		reference,
-		action: "added",
-		content: emoji.text,
-		schema: "unicode",
-		referenceInboxId,
-	};
-};
+// Reactions of the Bitte backend, which has no model of its own to ask
+export const generateReaction = createReactionGenerator(openai("gpt-4.1-nano"));
 
 const CODECS = [
 	new ReactionCodec(),
@@ -174,6 +157,31 @@ const CODECS = [
 
 export type ClientContentTypes = ExtractCodecContentTypes<typeof CODECS>;
 
+// Readiness checks for /readyz, flipped as the agent comes up
+const readiness = {
+	client: false,
+	synced: false,
+	stream: false,
+	accepting: true,
+};
+
+// Set once the graceful shutdown exists, failures before that exit directly
+let requestShutdown: ((reason: string, exitCode: number) => void) | undefined;
+
+// Health, readiness and metrics endpoints, up before the client so the
+// orchestrator can tell "starting" from "dead"
+const httpServer = startHttpServer({
+	port: HTTP_PORT,
+	getReadiness: () => ({ ...readiness }),
+	onError: () => {
+		if (requestShutdown) {
+			requestShutdown("HTTP server failed", EXIT_CODES.httpServerFailed);
+		} else {
+			process.exit(EXIT_CODES.httpServerFailed);
+		}
+	},
+});
+
 // Create the signer and client
 const signer = createSigner(WALLET_KEY);
 const dbEncryptionKey = getEncryptionKeyFromHex(ENCRYPTION_KEY);
@@ -186,307 +194,436 @@ const client = await Client.create(signer, {
 	loggingLevel: LogLevel.error,
 });
 
+readiness.client = true;
+
 // Log agent details
 void logAgentDetails(client);
 
-// Retry configuration
-const MAX_RETRIES = 5;
-const RETRY_INTERVAL = 5000; // 5 seconds
-
-let retries = MAX_RETRIES;
-
-const retry = () => {
-	console.log(`Retrying in ${RETRY_INTERVAL / 1000}s, ${retries} retries left`);
-	if (retries > 0) {
-		retries--;
-		setTimeout(() => {
-			handleStream();
-		}, RETRY_INTERVAL);
-	} else {
-		console.log("Max retries reached, ending process");
-		process.exit(1);
+// Allow, deny or leave new conversations according to the consent policy
+const consent = createConsentManager({ client, policy: CONSENT_POLICY });
+
+// Bitte request limits
+const AGENT_ATTEMPT_TIMEOUT = 60_000; // 1 minute per HTTP attempt
+const AGENT_DEADLINE = 120_000; // 2 minutes per message, retries included
+const BREAKER_FAILURE_THRESHOLD = 5; // failed calls in a row before opening
+const BREAKER_RESET_TIMEOUT = 30_000; // 30 seconds before a probe request
+const SIGNATURE_REQUEST_TTL = 15 * 60 * 1000; // 15 minutes to sign
+const RECEIPT_POLL_INTERVAL = 4_000; // 4 seconds between receipt lookups
+const RECEIPT_TIMEOUT = 10 * 60 * 1000; // 10 minutes for a transaction to land
+
+// Stops calling the Bitte runtime while it keeps failing
+const agentBreaker = createCircuitBreaker({
+	name: "bitte",
+	failureThreshold: BREAKER_FAILURE_THRESHOLD,
+	resetTimeoutMs: BREAKER_RESET_TIMEOUT,
+});
+
+// Where completions come from, picked with AGENT_BACKEND
+const createAgentBackend = (): AgentBackend => {
+	switch (AGENT_BACKEND) {
+		case "openai":
+			return createOpenAIBackend({
+				apiKey: OPENAI_API_KEY,
+				baseURL: OPENAI_BASE_URL,
+				model: OPENAI_MODEL,
+			});
+		case "mock":
+			return createMockBackend({ filePath: MOCK_BACKEND_FILE });
+		default:
+			return createBitteBackend({
+				attemptTimeoutMs: AGENT_ATTEMPT_TIMEOUT,
+				deadlineMs: AGENT_DEADLINE,
+				breaker: agentBreaker,
+			});
 	}
 };
 
-const onFail = () => {
-	console.log("Stream failed");
-	retry();
-};
+const backend = createAgentBackend();
+logger.info("Agent backend", { backend: backend.name });
 
-// Main stream handling function
-const handleStream = async () => {
+// sendToAgent with latency and outcome metrics
+const timedSendToAgent: AgentService["sendToAgent"] = async (params) => {
+	const startedAt = Date.now();
 	try {
-		const clientIdentifier = await client.signer?.getIdentifier();
-		const clientEvmAddress = clientIdentifier?.identifier;
-		const clientInboxId = client.inboxId;
+		const completion: CompletionResponse = await backend.sendToAgent(params);
+		metrics.agentRequests.inc({
+			outcome: completion.isError ? "error" : "ok",
+		});
+		return completion;
+	} catch (error) {
+		metrics.agentRequests.inc({ outcome: "exception" });
+		throw error;
+	} finally {
+		metrics.agentRequestDuration.observe((Date.now() - startedAt) / 1000);
+	}
+};
 
-		await client.conversations.syncAll([ConsentState.Allowed]);
-		console.log("Synced all conversations");
+// Conversations that already got the welcome message
+const welcomeTracker = createWelcomeTracker({
+	filePath: getStorePath(XMTP_ENV, "welcomed-conversations"),
+});
 
-		const stream = await client.conversations.streamAllMessages({
-			consentStates: [ConsentState.Allowed],
-			onValue: undefined,
-			onError: undefined,
-			onFail,
+// Token buckets per sender and per conversation, caps LLM calls
+const rateLimiter = createMessageRateLimiter({ limits: RATE_LIMITS });
+
+// Tokens per sender and conversation, for quotas and `bun export-usage`
+const usageTracker = createUsageTracker({
+	filePath: getUsagePath(XMTP_ENV),
+	quotas: USAGE_QUOTAS,
+});
+
+// Rules that send messages to specialist agents
+const routing = loadRoutingConfig(AGENT_ROUTES_FILE, BITTE_AGENT_ID);
+logger.info("Agent routing", {
+	defaultAgentId: routing.default.agentId,
+	rules: routing.rules.map(({ name, agentId }) => ({ name, agentId })),
+});
+const agentRouter = createAgentRouter(routing);
+
+// Agent chat ID per conversation, sender or thread, /reset starts a new one
+const chatSessions = createChatSessions({
+	filePath: getSessionsPath(XMTP_ENV),
+	idleTimeoutMs: SESSION_IDLE_TIMEOUT,
+});
+
+// Signing requests waiting for the user to reply with a signature
+const signatureRequests = createSignatureRequests({
+	filePath: getStorePath(XMTP_ENV, "signature-requests"),
+	ttlMs: SIGNATURE_REQUEST_TTL,
+});
+
+// Public clients for signature checks and receipts
+configureRpcUrls(RPC_URLS);
+
+// Follows transactions users send references for
+const receiptWatcher = createReceiptWatcher({
+	pollIntervalMs: RECEIPT_POLL_INTERVAL,
+	timeoutMs: RECEIPT_TIMEOUT,
+});
+
+// Slash commands answered without an agent call
+const commandRegistry = createCommandRegistry(
+	createBuiltinCommands({
+		sessions: chatSessions,
+		route: agentRouter,
+		getStatus: () => ({
+			connected: readiness.synced && readiness.stream,
+			backend: backend.name,
+			agentAvailable: agentBreaker.status().state !== "open",
+		}),
+	}),
+);
+
+const handleMessage = createMessageHandler({
+	client,
+	agent: {
+		sendToAgent: timedSendToAgent,
+		generateReaction: backend.generateReaction ?? generateReaction,
+	},
+	agentChatId: AGENT_CHAT_ID,
+	welcome: {
+		tracker: welcomeTracker,
+		dmMessage: WELCOME_MESSAGE_DM,
+		groupMessage: WELCOME_MESSAGE_GROUP,
+		forwardFirstMessage: WELCOME_FORWARD_FIRST_MESSAGE,
+	},
+	isSenderBlocked: consent.isBlocked,
+	rateLimit: { limiter: rateLimiter, message: RATE_LIMIT_MESSAGE },
+	history: HISTORY_OPTIONS,
+	route: agentRouter,
+	format: OUTBOUND_FORMAT,
+	usage: { tracker: usageTracker, quotaMessage: QUOTA_MESSAGE },
+	commands: commandRegistry,
+	sessions: { manager: chatSessions, groupScope: SESSION_GROUP_SCOPE },
+	signatures: signatureRequests,
+	receipts: receiptWatcher,
+	schedule: (conversationId, task) => scheduler.enqueue(conversationId, task),
+	simulateTransaction: SIMULATE_TRANSACTIONS
+		? simulateWalletSendCalls
+		: undefined,
+	signerPolicy: SIGNER_POLICY,
+});
+
+// Processed message IDs, kept next to the XMTP db so redeliveries are ignored
+const ledger = createMessageLedger({
+	filePath: getStorePath(XMTP_ENV, "processed-messages"),
+});
+
+// Ordered queue per conversation, conversations run concurrently up to the cap
+const scheduler = createConversationScheduler({
+	maxConcurrent: MAX_CONCURRENT_CONVERSATIONS,
+});
+
+// Report queue depth and wait times while there is work in flight
+const SCHEDULER_REPORT_INTERVAL = 60_000; // 1 minute
+
+setInterval(() => {
+	const { active, queued, queueDepths, wait } = scheduler.stats();
+	if (active === 0 && queued === 0) return;
+	logger.info("Scheduler", { active, queued, queueDepths, wait });
+}, SCHEDULER_REPORT_INTERVAL).unref();
+
+// Queue a message unless it was already handled, returns whether it was queued
+const dispatch = (message: AgentMessage) => {
+	// stop taking new messages once shutdown has started
+	if (shutdown.isShuttingDown()) return false;
+
+	metrics.messagesReceived.inc();
+
+	// skip messages that were already handled (redelivered after a restart)
+	if (ledger.has(message.id)) {
+		logger.debug("Skipping already processed message", {
+			conversationId: message.conversationId,
+			messageId: message.id,
 		});
+		metrics.messagesSkipped.inc({ reason: "duplicate" });
+		return false;
+	}
+	ledger.begin(message.id);
 
-		console.log("Waiting for messages...");
+	void scheduler.enqueue(message.conversationId, async () => {
+		const outcome = await handleMessage(message);
+		ledger.record(message, outcome);
 
-		// Process messages from the stream
-		for await (const message of stream) {
-			try {
-				// skip if the message is not valid
-				if (!message || !message.contentType) continue;
-
-				const senderInboxId = message.senderInboxId;
-
-				// skip if the message is from the agent
-				if (senderInboxId === clientInboxId) continue;
-
-				// skip if the message is a reaction
-				if (message.contentType.sameAs(ContentTypeReaction)) continue;
-
-				const conversation = await client.conversations.getConversationById(
-					message.conversationId,
-				);
-				// skip if the conversation is not found
-				if (!conversation) {
-					console.error(
-						`Conversation with id ${message.conversationId} not found`,
-					);
-					continue;
-				}
+		metrics.messagesProcessed.inc({ status: outcome.status });
+		if (outcome.status === "skipped") {
+			metrics.messagesSkipped.inc({ reason: outcome.reason });
+		}
+	});
+	return true;
+};
 
-				// skip if message content is not valid
-				const messageContent = extractMessageContent(message);
+// Retry configuration
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY = 2000; // 2 seconds, doubled on every failure
+const RETRY_MAX_DELAY = 60_000; // 1 minute
+const STREAM_STABLE_AFTER = 5 * 60_000; // 5 minutes without failure resets retries
+const CATCH_UP_MAX_AGE = 24 * 60 * 60_000; // 24 hours
+const SHUTDOWN_DRAIN_TIMEOUT = 25_000; // 25 seconds
+
+const CONSENT_STATES = [ConsentState.Allowed];
+// New conversations start as Unknown, sync them too when the policy may allow them
+const SYNC_CONSENT_STATES =
+	CONSENT_POLICY.mode === "manual" && CONSENT_POLICY.denylist.length === 0
+		? CONSENT_STATES
+		: [...CONSENT_STATES, ConsentState.Unknown];
+
+interface StreamSessionState {
+	// Streams the session opened, ended together
+	streams: AsyncStreamProxy<unknown>[];
+	failed: boolean;
+}
 
-				if (!messageContent || messageContent === "") continue;
+// The live session, its streams are ended on shutdown
+let activeSession: StreamSessionState | undefined;
 
-				const isDm = conversation instanceof Dm;
-				const isGroup = conversation instanceof Group;
-				const isSync = !isDm && !isGroup;
+const endSessionStreams = async (state: StreamSessionState) => {
+	await Promise.all(state.streams.map((stream) => stream.end()));
+};
 
-				console.log({
-					isDm,
-					isGroup,
-					isSync,
-					content: messageContent,
-				});
+/**
+ * Open an SDK stream that belongs to a session
+ *
+ * On failure the SDK keeps the stream open and restarts it by itself, while
+ * the supervisor starts a whole new session. So a failure ends every stream
+ * of the session, and a stream the SDK brings back later is closed again.
+ */
+const openSessionStream = async <T>(
+	state: StreamSessionState,
+	fail: StreamSession["fail"],
+	name: string,
+	open: (callbacks: {
+		onFail: () => void;
+		onRestart: () => void;
+	}) => Promise<AsyncStreamProxy<T>>,
+) => {
+	const stream = await open({
+		onFail: () => {
+			state.failed = true;
+			void endSessionStreams(state);
+			fail(new Error(`${name} failed`));
+		},
+		onRestart: () => {
+			logger.debug("Closing stream restarted by the SDK", { stream: name });
+			void stream.end();
+		},
+	});
+	state.streams.push(stream);
+	// failed while it was being opened
+	if (state.failed) await stream.end();
+	return stream;
+};
 
-				// Skip group update messages
-				if (message.contentType.sameAs(ContentTypeGroupUpdated)) {
-					continue;
-				}
+// Queue the recent messages of a conversation the policy just allowed, they
+// arrived before it was allowed so the message stream did not deliver them
+const dispatchAllowedConversation = async (
+	conversation: Dm<unknown> | Group<unknown>,
+) => {
+	await conversation.sync();
+	const messages = await conversation.messages({
+		sentAfterNs: (Date.now() - CATCH_UP_MAX_AGE) * 1_000_000,
+	});
+	const ordered = [...messages].sort(
+		(a, b) => a.sentAt.getTime() - b.sentAt.getTime(),
+	);
+	for (const message of ordered) dispatch(message);
+};
 
-				// if is DM or Group message, handle the conversation
-				if ((isDm || isGroup) && messageContent) {
-					// Check if this is the agent's first message in the conversation
-					const messages = await conversation.messages();
-					// const hasAgentReplied = messages.some(
-					// 	(msg) => msg.senderInboxId === clientInboxId,
-					// );
-
-					// TODO: fix welcome message
-					// if (!hasAgentReplied) {
-					// 	await conversation.send(WELCOME_MESSAGE, ContentTypeText);
-					// 	continue; // Skip AI response generation for welcome messages
-					// }
-
-					// Helper functions for group chat filtering
-					const isReplyToAgent = (message: DecodedMessage) => {
-						if (!message.contentType?.sameAs(ContentTypeReply)) return false;
-						const replyContent = message.content as Reply;
-						return messages.some(
-							(msg) =>
-								msg.id === replyContent.reference &&
-								msg.senderInboxId === clientInboxId,
-						);
-					};
-
-					const isTaggingClient = (messageContent: string) => {
-						const clientTags = [
-							`@${clientEvmAddress}`,
-							`@${AGENT_CHAT_ID}`,
-							"@bitte",
-						];
-						return clientTags.some((tag) =>
-							messageContent.toLowerCase().includes(tag.toLowerCase()),
-						);
-					};
-
-					// Skip group messages with no mention or reply to client
-					if (
-						isGroup &&
-						!isTaggingClient(messageContent) &&
-						!isReplyToAgent(message)
-					) {
-						continue;
-					}
-
-					// if not a transaction reference message, generate a reaction
-					if (!message.contentType.sameAs(ContentTypeTransactionReference)) {
-						// Generate and send a reaction
-						const reaction = await generateReaction({
-							messageContent,
-							reference: message.id,
-							referenceInboxId: senderInboxId,
-						});
-
-						await conversation.send(reaction, ContentTypeReaction);
-					}
-
-					// Get sender's EVM address
-					const inboxState = await client.preferences.inboxStateFromInboxIds([
-						senderInboxId,
-					]);
-					const addressFromInboxId =
-						inboxState?.[0]?.identifiers?.[0]?.identifier;
-
-					const chatId = `xmtp-${conversation.id}`;
-
-					console.log("Message Content", messageContent);
-
-					// Get AI response
-					const completion: CompletionResponse = await sendToAgent({
-						chatId,
-						message: messageContent,
-						evmAddress: addressFromInboxId,
-						contextMessage: `This is a ${
-							isGroup ? "group" : "DM"
-						} chat from within The Base App using XMTP. Keep responses brief when possible. Use plain text and emojis, do not include link, markdown, or html formatting. 
-
-The user's EVM address is ${addressFromInboxId}.
-
-- Your are an agent built by the Bitte Protocol Team (Bitte.ai). Do not mention OpenAI or any other LLMs.`,
-					});
-
-					console.log("Completion", JSON.stringify(completion, null, 2));
-
-					// Handle tool calls using the transaction helpers
-					if (completion.toolCalls && completion.toolCalls.length > 0) {
-						for (const toolCall of completion.toolCalls) {
-							if ("result" in toolCall && toolCall.result?.data) {
-								const data = toolCall.result.data;
-
-								// Only process if data is an object (not string, number, etc.)
-								if (typeof data === "object" && data !== null) {
-									// Handle EVM sign requests using the helper functions
-									if ("evmSignRequest" in data && data.evmSignRequest) {
-										try {
-											// Validate the response
-											const validatedResponse = validateEvmTxResponse({
-												evmSignRequest: data.evmSignRequest,
-											});
-
-											// Extract signer address from the request (optional - for verification)
-											const signerFromRequest = extractSignerAddress(
-												validatedResponse.evmSignRequest,
-											);
-
-											// Use XMTP address as primary, but log if there's a mismatch
-											const userAddress = addressFromInboxId as `0x${string}`;
-											if (
-												signerFromRequest.toLowerCase() !==
-												userAddress.toLowerCase()
-											) {
-												console.warn(
-													`Address mismatch: XMTP=${userAddress}, Request=${signerFromRequest}`,
-												);
-											}
-
-											// Convert to wallet send calls
-											const result = await handleEvmTransaction(
-												validatedResponse,
-												userAddress,
-											);
-
-											if (result.success) {
-												// Send the wallet send calls
-												await conversation.send(
-													result.data,
-													ContentTypeWalletSendCalls,
-												);
-											} else {
-												console.error(
-													"❌ Failed to convert EVM transaction:",
-													result.error,
-												);
-
-												// Optionally send an error message to the user
-												await conversation.send(
-													`Sorry, I encountered an error processing your transaction: ${result.error}`,
-													ContentTypeText,
-												);
-											}
-										} catch (error) {
-											console.error(
-												"❌ Error processing EVM sign request:",
-												error,
-											);
-
-											// Log the actual data that caused the error
-											console.error(
-												"Data that caused error:",
-												JSON.stringify(data, null, 2),
-											);
-
-											// Optionally send an error message to the user
-											const errorMessage =
-												error instanceof Error
-													? error.message
-													: "Unknown error occurred";
-
-											await conversation.send(
-												`Sorry, I couldn't process your transaction request: ${errorMessage}`,
-												ContentTypeText,
-											);
-										}
-									}
-									// Handle other tool call types here if needed
-								}
-								// Silently ignore other data types
-							}
-						}
-					}
-
-					const isTransactionReference = message?.contentType?.sameAs(
-						ContentTypeTransactionReference,
-					);
-
-					// send tx reference to agent
-					if (isTransactionReference) {
-						await conversation.send(
-							`Transaction reference: ${message.content}`,
-							ContentTypeTransactionReference,
-						);
-					}
-
-					// Send AI response (ignore transaction references)
-					if (completion.content && !isTransactionReference) {
-						// handle group messages
-						if (isGroup) {
-							const reply: Reply = {
-								reference: message.id,
-								contentType: ContentTypeText,
-								content: completion.content,
-							};
-
-							await conversation.send(reply, ContentTypeReply);
-							// handle DM messages
-						} else {
-							await conversation.send(completion.content, ContentTypeText);
-						}
-					}
+// Apply the consent policy to conversations as they arrive
+const watchNewConversations = async (
+	stream: AsyncStreamProxy<Dm<unknown> | Group<unknown> | undefined>,
+) => {
+	try {
+		for await (const conversation of stream) {
+			if (!conversation) continue;
+			try {
+				const decision = await consent.applyToConversation(conversation);
+				if (decision === "allow") {
+					await dispatchAllowedConversation(conversation);
 				}
 			} catch (error) {
-				console.error("❌ Error processing message:", error);
+				logger.error("Failed to apply consent policy", {
+					conversationId: conversation.id,
+					error,
+				});
 			}
 		}
 	} catch (error) {
-		console.error("❌ Stream error:", error);
-		onFail();
+		logger.error("Conversation stream error", { error });
 	}
 };
 
+// Main stream handling function, one call per stream session
+const handleStream = async (session: StreamSession) => {
+	const state: StreamSessionState = { streams: [], failed: false };
+	activeSession = state;
+	try {
+		await runStreamSession(session, state);
+	} finally {
+		await endSessionStreams(state);
+		// with a short backoff the next session may already be running
+		if (activeSession === state) {
+			activeSession = undefined;
+			readiness.stream = false;
+		}
+	}
+};
+
+const runStreamSession = async (
+	{ isReconnect, fail }: StreamSession,
+	state: StreamSessionState,
+) => {
+	await client.conversations.syncAll(SYNC_CONSENT_STATES);
+	readiness.synced = true;
+	logger.info("Synced all conversations");
+
+	// Conversations that arrived while the agent was offline
+	const allowed = await consent.applyToPending();
+	for (const conversation of allowed) {
+		await dispatchAllowedConversation(conversation);
+	}
+
+	if (SYNC_CONSENT_STATES !== CONSENT_STATES) {
+		const conversationStream = await openSessionStream(
+			state,
+			fail,
+			"Conversation stream",
+			(callbacks) => client.conversations.stream(callbacks),
+		);
+		void watchNewConversations(conversationStream);
+	}
+
+	const stream = await openSessionStream(state, fail, "Stream", (callbacks) =>
+		client.conversations.streamAllMessages({
+			consentStates: CONSENT_STATES,
+			onValue: undefined,
+			onError: undefined,
+			...callbacks,
+		}),
+	);
+	if (activeSession === state && !state.failed) readiness.stream = true;
+
+	// The stream buffers while we catch up, so missed messages queue first
+	try {
+		await catchUpMissedMessages({
+			client,
+			ledger,
+			consentStates: CONSENT_STATES,
+			maxAgeMs: CATCH_UP_MAX_AGE,
+			dispatch,
+		});
+	} catch (error) {
+		logger.error("Catch-up failed", { isReconnect, error });
+	}
+
+	logger.info("Waiting for messages...");
+
+	// Process messages from the stream
+	for await (const message of stream) {
+		if (!message) continue;
+		dispatch(message);
+	}
+};
+
+const supervisor = createStreamSupervisor({
+	run: handleStream,
+	maxRetries: MAX_RETRIES,
+	baseDelayMs: RETRY_BASE_DELAY,
+	maxDelayMs: RETRY_MAX_DELAY,
+	stableAfterMs: STREAM_STABLE_AFTER,
+	onGiveUp: () => {
+		void shutdown.shutdown("max retries reached", EXIT_CODES.streamFailed);
+	},
+});
+
+const shutdown = createGracefulShutdown({
+	stopIntake: () => {
+		readiness.accepting = false;
+		supervisor.stop();
+		const dropped = scheduler.close();
+		if (dropped > 0) {
+			logger.info("Dropped queued messages, catch-up will retry them", {
+				dropped,
+			});
+		}
+	},
+	drain: scheduler.idle,
+	close: async () => {
+		receiptWatcher.stop();
+		if (activeSession) await endSessionStreams(activeSession);
+		await ledger.flush();
+		await welcomeTracker.flush();
+		await usageTracker.flush();
+		await chatSessions.flush();
+		await signatureRequests.flush();
+		httpServer.close();
+	},
+	drainTimeoutMs: SHUTDOWN_DRAIN_TIMEOUT,
+});
+
+shutdown.handleSignals();
+requestShutdown = (reason, exitCode) => {
+	void shutdown.shutdown(reason, exitCode);
+};
+
+// Refresh stream, scheduler, rate limit and circuit breaker gauges on every scrape
+addCollector(() => {
+	const { retriesLeft } = supervisor.status();
+	const { active, queued, wait } = scheduler.stats();
+	metrics.streamRetriesLeft.set(retriesLeft);
+	metrics.streamActive.set(readiness.stream ? 1 : 0);
+	metrics.schedulerActive.set(active);
+	metrics.schedulerQueued.set(queued);
+	metrics.schedulerWaitMax.set(wait.maxMs / 1000);
+	const breaker = agentBreaker.status();
+	metrics.agentCircuitState.set(
+		{ closed: 0, half_open: 1, open: 2 }[breaker.state],
+	);
+	metrics.agentCircuitFailures.set(breaker.consecutiveFailures);
+	const { tracked, throttled } = rateLimiter.stats();
+	metrics.rateLimitTracked.set(tracked);
+	metrics.rateLimitThrottled.set(throttled);
+});
+
 // Start the stream handling
-handleStream();
+supervisor.start();
@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import { createAgentRouter, type RoutingConfig } from "@/helpers/agent-router";
+import { createMessageHandler } from "@/helpers/message-handler";
+import {
+	createFakeAgent,
+	createFakeHandlerDeps,
+	createFakeXmtp,
+} from "@/test/fake-xmtp";
+
+const SENDER = "0x1111111111111111111111111111111111111111";
+const VIP = "0x9999999999999999999999999999999999999999";
+
+const config: RoutingConfig = {
+	default: { name: "general", agentId: "bitte-defi" },
+	rules: [
+		{ name: "nfts", agentId: "bitte-nft", match: { prefix: "/nft" } },
+		{ name: "vip", agentId: "bitte-vip", match: { senderAddress: VIP } },
+		{
+			name: "trading-group",
+			agentId: "bitte-trading",
+			match: { conversationType: "group", keyword: "swap" },
+		},
+		{ name: "support", agentId: "bitte-support", match: { keyword: "help" } },
+	],
+};
+
+const router = createAgentRouter(config);
+
+// Route picked for a message, through the message handler so mentions are
+// handled like in production
+const routeOf = async (
+	kind: "dm" | "group",
+	content: string,
+	sender = SENDER,
+) => {
+	const xmtp = createFakeXmtp({ addresses: { alice: [sender] } });
+	const { agent, calls } = createFakeAgent();
+	const handleMessage = createMessageHandler({
+		...createFakeHandlerDeps({ xmtp, agent }),
+		route: router,
+	});
+	const conversation = kind === "dm" ? xmtp.createDm() : xmtp.createGroup();
+
+	await handleMessage(
+		xmtp.receive(conversation, { senderInboxId: "alice", content }),
+	);
+	return calls[0]?.agentId;
+};
+
+describe("createAgentRouter", () => {
+	const context = {
+		kind: "dm" as const,
+		conversationId: "dm-1",
+		senderAddresses: [SENDER],
+	};
+
+	test("takes the first matching rule", () => {
+		expect(router({ ...context, message: "/nft help" }).name).toBe("nfts");
+	});
+
+	test("matches prefixes and keywords case-insensitively", () => {
+		expect(router({ ...context, message: "/NFT floor" }).name).toBe("nfts");
+		expect(router({ ...context, message: "I need HELP" }).name).toBe("support");
+		expect(router({ ...context, message: "show /nft" }).name).toBe("general");
+	});
+
+	test("matches any of the sender's addresses", () => {
+		expect(
+			router({
+				...context,
+				senderAddresses: [SENDER, VIP.toUpperCase()],
+				message: "gm",
+			}).name,
+		).toBe("vip");
+	});
+
+	test("limits rules to a conversation type", () => {
+		expect(router({ ...context, message: "swap ETH" }).name).toBe("general");
+		expect(
+			router({
+				...context,
+				kind: "group",
+				conversationId: "group-1",
+				message: "swap ETH",
+			}).name,
+		).toBe("trading-group");
+	});
+
+	test("falls back to the default route", () => {
+		expect(router({ ...context, message: "gm" })).toEqual(config.default);
+	});
+});
+
+describe("routing messages", () => {
+	test("matches prefix rules in DMs and after the mention in groups", async () => {
+		expect(await routeOf("dm", "/nft floor of punks")).toBe("bitte-nft");
+		expect(await routeOf("group", "@bitte /nft floor of punks")).toBe(
+			"bitte-nft",
+		);
+		expect(await routeOf("group", "@bitte.base.eth, /nft floor")).toBe(
+			"bitte-nft",
+		);
+	});
+
+	test("matches keyword rules in DMs and groups", async () => {
+		expect(await routeOf("dm", "help, my wallet is gone")).toBe(
+			"bitte-support",
+		);
+		expect(await routeOf("group", "@bitte help me out")).toBe("bitte-support");
+	});
+
+	test("does not match keywords in the mention itself", async () => {
+		const xmtp = createFakeXmtp({ addresses: { alice: [SENDER] } });
+		const { agent, calls } = createFakeAgent();
+		const handleMessage = createMessageHandler({
+			...createFakeHandlerDeps({ xmtp, agent, agentChatId: "help.base.eth" }),
+			route: router,
+		});
+		const group = xmtp.createGroup();
+
+		await handleMessage(
+			xmtp.receive(group, {
+				senderInboxId: "alice",
+				content: "@help.base.eth price of ETH",
+			}),
+		);
+
+		expect(calls[0]?.agentId).toBe("bitte-defi");
+	});
+
+	test("matches sender rules in DMs and groups", async () => {
+		expect(await routeOf("dm", "gm", VIP)).toBe("bitte-vip");
+		expect(await routeOf("group", "@bitte gm", VIP)).toBe("bitte-vip");
+	});
+
+	test("matches conversation type rules", async () => {
+		expect(await routeOf("dm", "swap 1 ETH to USDC")).toBe("bitte-defi");
+		expect(await routeOf("group", "@bitte swap 1 ETH to USDC")).toBe(
+			"bitte-trading",
+		);
+	});
+});
@@ -0,0 +1,273 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { ERROR_REPLY } from "@/helpers/agent-backend";
+import { createCircuitBreaker } from "@/helpers/circuit-breaker";
+
+// config.ts reads these when the client is imported
+process.env.WALLET_KEY ??= `0x${"11".repeat(32)}`;
+process.env.ENCRYPTION_KEY ??= "22".repeat(32);
+process.env.XMTP_ENV ??= "dev";
+process.env.BITTE_AGENT_ID ??= "test-agent";
+process.env.BITTE_API_KEY ??= "test-key";
+process.env.OPENAI_API_KEY ??= "test-openai-key";
+process.env.LOG_LEVEL = "error";
+const { sendToAgent } = await import("@/helpers/bitte-client");
+
+const STREAM = [
+	'0:"gm"',
+	'e:{"finishReason":"stop","usage":{"promptTokens":10,"completionTokens":2},"isContinued":false}',
+	'd:{"finishReason":"stop","usage":{"promptTokens":10,"completionTokens":2}}',
+	"",
+].join("\n");
+
+const request = { chatId: "xmtp-c1", message: "gm", evmAddress: "0xabc" };
+
+type Answer = (signal: AbortSignal) => Response | Promise<Response>;
+
+const originalFetch = globalThis.fetch;
+afterEach(() => {
+	globalThis.fetch = originalFetch;
+});
+
+// Answer requests in order, the last answer repeats
+const stubFetch = (...answers: Answer[]) => {
+	let calls = 0;
+	globalThis.fetch = (async (_url: string, init: RequestInit) => {
+		const answer = answers[Math.min(calls++, answers.length - 1)];
+		if (!answer || !init.signal) throw new Error("unexpected request");
+		return answer(init.signal);
+	}) as unknown as typeof fetch;
+	return { calls: () => calls };
+};
+
+const ok: Answer = () => new Response(STREAM);
+const status =
+	(code: number, headers?: Record<string, string>): Answer =>
+	() =>
+		new Response("busy", { status: code, headers });
+// Never answers, only the abort ends it
+const hang: Answer = (signal) =>
+	new Promise((_, reject) => {
+		signal.addEventListener("abort", () => reject(signal.reason));
+	});
+
+// A body that sends a line, then the rest after `delayMs` unless aborted
+const slowBody =
+	(delayMs: number): Answer =>
+	(signal) =>
+		new Response(
+			new ReadableStream({
+				start: (controller) => {
+					const encoder = new TextEncoder();
+					controller.enqueue(encoder.encode('0:"g"\n'));
+					const timer = setTimeout(() => {
+						controller.enqueue(encoder.encode(STREAM));
+						controller.close();
+					}, delayMs);
+					signal.addEventListener("abort", () => {
+						clearTimeout(timer);
+						controller.error(signal.reason);
+					});
+				},
+			}),
+		);
+
+describe("sendToAgent", () => {
+	test("returns the parsed completion", async () => {
+		const fetch = stubFetch(ok);
+
+		const completion = await sendToAgent(request);
+
+		expect(completion.content).toBe("gm");
+		expect(completion.usage).toEqual({ promptTokens: 10, completionTokens: 2 });
+		expect(fetch.calls()).toBe(1);
+	});
+
+	test("waits as long as Retry-After says on 429 and 503", async () => {
+		const fetch = stubFetch(
+			status(429, { "Retry-After": "0.05" }),
+			status(503, { "Retry-After": new Date(0).toUTCString() }),
+			ok,
+		);
+		const startedAt = Date.now();
+
+		const completion = await sendToAgent(request);
+
+		expect(completion.content).toBe("gm");
+		expect(fetch.calls()).toBe(3);
+		// not the 1s and 2s backoff
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+		expect(Date.now() - startedAt).toBeLessThan(900);
+	});
+
+	test("gives up when Retry-After is past the deadline", async () => {
+		const fetch = stubFetch(status(429, { "Retry-After": "30" }), ok);
+		const startedAt = Date.now();
+
+		const completion = await sendToAgent(request, { deadlineMs: 5_000 });
+
+		expect(completion).toMatchObject({ content: ERROR_REPLY, isError: true });
+		expect(fetch.calls()).toBe(1);
+		expect(Date.now() - startedAt).toBeLessThan(1_000);
+	});
+
+	test("does not retry client errors", async () => {
+		const fetch = stubFetch(status(400), ok);
+
+		const completion = await sendToAgent(request);
+
+		expect(completion.content).toBe(ERROR_REPLY);
+		expect(fetch.calls()).toBe(1);
+	});
+
+	test("retries an attempt that times out", async () => {
+		const fetch = stubFetch(hang, ok);
+
+		const completion = await sendToAgent(request, {
+			attemptTimeoutMs: 50,
+			deadlineMs: 5_000,
+		});
+
+		expect(completion.content).toBe("gm");
+		expect(fetch.calls()).toBe(2);
+	});
+
+	test("stops at the overall deadline whatever the attempt timeout", async () => {
+		const fetch = stubFetch(hang);
+		const startedAt = Date.now();
+
+		const completion = await sendToAgent(request, {
+			attemptTimeoutMs: 60_000,
+			deadlineMs: 100,
+		});
+
+		expect(completion.content).toBe(ERROR_REPLY);
+		expect(fetch.calls()).toBe(1);
+		expect(Date.now() - startedAt).toBeLessThan(1_000);
+	});
+
+	test("times out a body that stalls", async () => {
+		stubFetch(slowBody(500));
+
+		const completion = await sendToAgent(request, {
+			attemptTimeoutMs: 50,
+			deadlineMs: 200,
+		});
+
+		// events already reached the caller, so no retry
+		expect(completion.content).toBe(ERROR_REPLY);
+	});
+
+	test("does not count time spent in handlers against the attempt", async () => {
+		stubFetch(ok);
+
+		const completion = await sendToAgent(
+			{
+				...request,
+				onEvent: () => new Promise((resolve) => setTimeout(resolve, 40)),
+			},
+			{ attemptTimeoutMs: 60, deadlineMs: 5_000 },
+		);
+
+		expect(completion.content).toBe("gm");
+		expect(completion.isError).toBeUndefined();
+	});
+});
+
+describe("sendToAgent with a circuit breaker", () => {
+	const setup = () => {
+		let time = 0;
+		const breaker = createCircuitBreaker({
+			name: "bitte",
+			failureThreshold: 2,
+			resetTimeoutMs: 30_000,
+			now: () => time,
+		});
+		return {
+			breaker,
+			advance: (ms: number) => {
+				time += ms;
+			},
+		};
+	};
+	const busy = status(503, { "Retry-After": "0" });
+
+	test("opens after failed calls and skips requests while open", async () => {
+		const { breaker } = setup();
+		const fetch = stubFetch(busy);
+
+		await sendToAgent(request, { breaker });
+		expect(breaker.status()).toMatchObject({
+			state: "closed",
+			consecutiveFailures: 1,
+		});
+		await sendToAgent(request, { breaker });
+		expect(breaker.status().state).toBe("open");
+		// three attempts per call
+		expect(fetch.calls()).toBe(6);
+
+		const completion = await sendToAgent(request, { breaker });
+
+		expect(completion).toMatchObject({ content: ERROR_REPLY, isError: true });
+		expect(fetch.calls()).toBe(6);
+	});
+
+	test("lets one probe through after the reset timeout", async () => {
+		const { breaker, advance } = setup();
+		stubFetch(busy);
+		await sendToAgent(request, { breaker });
+		await sendToAgent(request, { breaker });
+
+		advance(30_000);
+		const fetch = stubFetch(busy);
+		await sendToAgent(request, { breaker });
+
+		// the probe failed, open again
+		expect(breaker.status().state).toBe("open");
+		expect(fetch.calls()).toBe(3);
+
+		advance(30_000);
+		stubFetch(ok);
+		expect((await sendToAgent(request, { breaker })).content).toBe("gm");
+		expect(breaker.status()).toMatchObject({
+			state: "closed",
+			consecutiveFailures: 0,
+		});
+	});
+
+	test("does not count rejected requests", async () => {
+		const { breaker } = setup();
+		stubFetch(status(401));
+
+		await sendToAgent(request, { breaker });
+		await sendToAgent(request, { breaker });
+
+		expect(breaker.status()).toMatchObject({
+			state: "closed",
+			consecutiveFailures: 0,
+		});
+	});
+
+	test("does not count handler errors against the runtime", async () => {
+		const { breaker } = setup();
+		const fetch = stubFetch(ok);
+		const failing = {
+			...request,
+			onEvent: () => {
+				throw new Error("send failed");
+			},
+		};
+
+		for (let i = 0; i < 3; i++) {
+			await expect(sendToAgent(failing, { breaker })).rejects.toThrow(
+				"send failed",
+			);
+		}
+
+		expect(breaker.status()).toMatchObject({
+			state: "closed",
+			consecutiveFailures: 0,
+		});
+		// not retried either
+		expect(fetch.calls()).toBe(3);
+	});
+});
@@ -0,0 +1,297 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type Address,
+	encodeAbiParameters,
+	encodeFunctionData,
+	erc20Abi,
+	type Hex,
+	maxUint256,
+	parseAbi,
+	parseEther,
+	toFunctionSelector,
+	toHex,
+} from "viem";
+import { describeCall } from "@/helpers/calldata-decoder";
+import { createFakeRpc } from "@/test/fake-rpc";
+
+const BASE = 8453;
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const WETH = "0x4200000000000000000000000000000000000006";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+const nftAbi = parseAbi([
+	"function safeTransferFrom(address from, address to, uint256 tokenId)",
+	"function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+	"function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+	"function deposit()",
+	"function withdraw(uint256 wad)",
+]);
+
+const DECIMALS = toFunctionSelector("function decimals()");
+const SYMBOL = toFunctionSelector("function symbol()");
+
+// The token cache lives as long as the module, every test gets its own token
+let nextToken = 0x3000;
+const newToken = () =>
+	`0x${(nextToken++).toString(16).padStart(40, "0")}` as Address;
+
+interface TokenContract {
+	decimals?: number;
+	// A string, or raw return data such as a bytes32 symbol
+	symbol?: string | Hex;
+	// Answer this late
+	delayMs?: number;
+}
+
+const rpcs: Awaited<ReturnType<typeof createFakeRpc>>[] = [];
+
+// An RPC serving the given contracts, anything else reverts
+const setup = async (contracts: Record<string, TokenContract>) => {
+	const rpc = await createFakeRpc({
+		eth_call: async (params) => {
+			const { to, data } = params[0] as { to: string; data: Hex };
+			const contract = contracts[to.toLowerCase()];
+			if (contract?.delayMs) {
+				await new Promise((resolve) => setTimeout(resolve, contract.delayMs));
+			}
+			if (contract?.decimals !== undefined && data === DECIMALS) {
+				return encodeAbiParameters([{ type: "uint8" }], [contract.decimals]);
+			}
+			if (contract?.symbol !== undefined && data === SYMBOL) {
+				return contract.symbol.startsWith("0x")
+					? contract.symbol
+					: encodeAbiParameters([{ type: "string" }], [contract.symbol]);
+			}
+			throw { code: 3, message: "execution reverted", data: "0x" };
+		},
+	});
+	rpcs.push(rpc);
+	return rpc;
+};
+
+afterEach(() => {
+	for (const rpc of rpcs.splice(0)) rpc.stop();
+});
+
+const transfer = (to: Address, amount: bigint) =>
+	encodeFunctionData({
+		abi: erc20Abi,
+		functionName: "transfer",
+		args: [to, amount],
+	});
+
+describe("describeCall", () => {
+	test("describes native sends", async () => {
+		expect(
+			await describeCall({
+				chainId: BASE,
+				to: BOB,
+				value: toHex(parseEther("0.001")),
+			}),
+		).toBe("Send 0.001 ETH to 0x2222…2222");
+	});
+
+	test("describes transfers and approvals of known tokens without an RPC", async () => {
+		const getClient = () => undefined;
+
+		expect(
+			await describeCall(
+				{ chainId: BASE, to: USDC, data: transfer(BOB, 1_234_500_000n) },
+				getClient,
+			),
+		).toBe("Send 1,234.5 USDC to 0x2222…2222");
+		expect(
+			await describeCall(
+				{
+					chainId: BASE,
+					to: USDC,
+					data: encodeFunctionData({
+						abi: erc20Abi,
+						functionName: "approve",
+						args: [BOB, maxUint256],
+					}),
+				},
+				getClient,
+			),
+		).toBe("Approve unlimited USDC for 0x2222…2222");
+		expect(
+			await describeCall(
+				{
+					chainId: BASE,
+					to: USDC,
+					data: encodeFunctionData({
+						abi: erc20Abi,
+						functionName: "approve",
+						args: [BOB, 5_000_000n],
+					}),
+				},
+				getClient,
+			),
+		).toBe("Approve 5 USDC for 0x2222…2222");
+	});
+
+	test("reads unknown tokens from the chain", async () => {
+		const token = newToken();
+		const rpc = await setup({ [token]: { decimals: 18, symbol: "TKN" } });
+
+		expect(
+			await describeCall(
+				{ chainId: BASE, to: token, data: transfer(BOB, parseEther("1.5")) },
+				() => rpc.client,
+			),
+		).toBe("Send 1.5 TKN to 0x2222…2222");
+	});
+
+	test("describes transferFrom of tokens and ERC-721s", async () => {
+		const token = newToken();
+		const nft = newToken();
+		const rpc = await setup({ [token]: { decimals: 6, symbol: "TKN" } });
+		const transferFrom = (amount: bigint) =>
+			encodeFunctionData({
+				abi: erc20Abi,
+				functionName: "transferFrom",
+				args: [ALICE, BOB, amount],
+			});
+
+		expect(
+			await describeCall(
+				{ chainId: BASE, to: token, data: transferFrom(2_000_000n) },
+				() => rpc.client,
+			),
+		).toBe("Transfer 2 TKN from 0x1111…1111 to 0x2222…2222");
+		// decimals() reverts, so it is not an ERC-20
+		expect(
+			await describeCall(
+				{ chainId: BASE, to: nft, data: transferFrom(42n) },
+				() => rpc.client,
+			),
+		).toBe(
+			`Transfer NFT #42 of 0x0000…${nft.slice(-4)} from 0x1111…1111 to 0x2222…2222`,
+		);
+	});
+
+	test("describes ERC-721 and ERC-1155 safe transfers", async () => {
+		const nft = newToken();
+		const short = `0x0000…${nft.slice(-4)}`;
+
+		expect(
+			await describeCall({
+				chainId: BASE,
+				to: nft,
+				data: encodeFunctionData({
+					abi: nftAbi,
+					functionName: "safeTransferFrom",
+					args: [ALICE, BOB, 7n],
+				}),
+			}),
+		).toBe(`Transfer NFT #7 of ${short} from 0x1111…1111 to 0x2222…2222`);
+		expect(
+			await describeCall({
+				chainId: BASE,
+				to: nft,
+				data: encodeFunctionData({
+					abi: nftAbi,
+					functionName: "safeTransferFrom",
+					args: [ALICE, BOB, 7n, 3n, "0x"],
+				}),
+			}),
+		).toBe(`Transfer 3× NFT #7 of ${short} from 0x1111…1111 to 0x2222…2222`);
+		expect(
+			await describeCall({
+				chainId: BASE,
+				to: nft,
+				data: encodeFunctionData({
+					abi: nftAbi,
+					functionName: "safeBatchTransferFrom",
+					args: [ALICE, BOB, [1n, 2n], [1n, 1n], "0x"],
+				}),
+			}),
+		).toBe(`Transfer 2 NFTs of ${short} from 0x1111…1111 to 0x2222…2222`);
+	});
+
+	test("describes WETH wrapping and unwrapping", async () => {
+		expect(
+			await describeCall({
+				chainId: BASE,
+				to: WETH,
+				data: encodeFunctionData({ abi: nftAbi, functionName: "deposit" }),
+				value: toHex(parseEther("0.5")),
+			}),
+		).toBe("Wrap 0.5 ETH");
+		expect(
+			await describeCall({
+				chainId: BASE,
+				to: WETH,
+				data: encodeFunctionData({
+					abi: nftAbi,
+					functionName: "withdraw",
+					args: [parseEther("0.25")],
+				}),
+			}),
+		).toBe("Unwrap 0.25 WETH");
+	});
+
+	test("describes other calls by their target", async () => {
+		const vault = newToken();
+		const short = `0x0000…${vault.slice(-4)}`;
+
+		// deposit() on anything but WETH is not wrapping
+		expect(
+			await describeCall({
+				chainId: BASE,
+				to: vault,
+				data: encodeFunctionData({ abi: nftAbi, functionName: "deposit" }),
+				value: toHex(parseEther("0.5")),
+			}),
+		).toBe(`Call ${short} with 0.5 ETH`);
+		expect(
+			await describeCall({ chainId: BASE, to: vault, data: "0xdeadbeef" }),
+		).toBe(`Call ${short}`);
+	});
+
+	test("falls back to the address for bytes32 symbols", async () => {
+		const token = newToken();
+		const rpc = await setup({
+			[token]: {
+				decimals: 18,
+				symbol: `0x${Buffer.from("MKR").toString("hex").padEnd(64, "0")}`,
+			},
+		});
+
+		expect(
+			await describeCall(
+				{ chainId: BASE, to: token, data: transfer(BOB, parseEther("2")) },
+				() => rpc.client,
+			),
+		).toBe(`Send 2 0x0000…${token.slice(-4)} to 0x2222…2222`);
+	});
+
+	test("gives raw units when the token can't be looked up in time", async () => {
+		const token = newToken();
+		const rpc = await setup({
+			[token]: { decimals: 18, symbol: "SLOW", delayMs: 500 },
+		});
+		const startedAt = Date.now();
+
+		expect(
+			await describeCall(
+				{ chainId: BASE, to: token, data: transfer(BOB, 10n) },
+				() => rpc.client,
+				50,
+			),
+		).toBe(`Send 10 units of 0x0000…${token.slice(-4)} to 0x2222…2222`);
+		expect(Date.now() - startedAt).toBeLessThan(400);
+	});
+
+	test("gives raw units without an RPC for the chain", async () => {
+		const token = newToken();
+
+		expect(
+			await describeCall(
+				{ chainId: BASE, to: token, data: transfer(BOB, 10n) },
+				() => undefined,
+			),
+		).toBe(`Send 10 units of 0x0000…${token.slice(-4)} to 0x2222…2222`);
+	});
+});
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { catchUpMissedMessages } from "@/helpers/catch-up";
+import type { AgentMessage } from "@/helpers/message-handler";
+import { createMessageLedger } from "@/helpers/message-ledger";
+import { createFakeMessage, createFakeXmtp } from "@/test/fake-xmtp";
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const directories: string[] = [];
+
+afterEach(() => {
+	for (const directory of directories.splice(0)) {
+		rmSync(directory, { recursive: true, force: true });
+	}
+});
+
+const setup = () => {
+	const directory = mkdtempSync(join(tmpdir(), "catch-up-"));
+	directories.push(directory);
+	const ledger = createMessageLedger({
+		filePath: join(directory, "message-ledger.json"),
+	});
+	const xmtp = createFakeXmtp();
+	const client = {
+		conversations: { list: async () => [...xmtp.conversations.values()] },
+	};
+
+	// A message in `conversation` sent `minutesAgo` minutes ago
+	const sent = (
+		conversation: ReturnType<typeof xmtp.createDm>,
+		id: string,
+		minutesAgo: number,
+	) => {
+		const message = createFakeMessage({
+			conversationId: conversation.id,
+			senderInboxId: "alice",
+			content: id,
+			id,
+			sentAt: new Date(Date.now() - minutesAgo * MINUTE),
+		});
+		conversation.history.push(message);
+		return message;
+	};
+
+	// Queues like the server does: once per message, whatever delivers it
+	const dispatched: string[] = [];
+	const dispatch = (message: AgentMessage) => {
+		if (ledger.has(message.id)) return false;
+		ledger.begin(message.id);
+		dispatched.push(message.id);
+		return true;
+	};
+
+	const catchUp = (maxAgeMs = DAY) =>
+		catchUpMissedMessages({
+			client,
+			ledger,
+			consentStates: [],
+			maxAgeMs,
+			dispatch,
+		});
+
+	return { xmtp, ledger, sent, dispatch, dispatched, catchUp };
+};
+
+describe("catchUpMissedMessages", () => {
+	test("dispatches messages after the last processed one, oldest first", async () => {
+		const { xmtp, ledger, sent, dispatched, catchUp } = setup();
+		const dm = xmtp.createDm();
+		ledger.record(sent(dm, "handled", 30), { status: "handled" });
+		sent(dm, "missed-2", 10);
+		sent(dm, "missed-1", 20);
+
+		expect(await catchUp()).toBe(2);
+		expect(dispatched).toEqual(["missed-1", "missed-2"]);
+	});
+
+	test("skips messages the stream already delivered", async () => {
+		const { xmtp, ledger, sent, dispatch, dispatched, catchUp } = setup();
+		const dm = xmtp.createDm();
+		ledger.record(sent(dm, "handled", 30), { status: "handled" });
+		// delivered by the restarted stream and still being handled
+		dispatch(sent(dm, "in-flight", 20));
+		sent(dm, "missed", 10);
+
+		expect(await catchUp()).toBe(1);
+		expect(dispatched).toEqual(["in-flight", "missed"]);
+	});
+
+	test("does not dispatch anything twice over repeated passes", async () => {
+		const { xmtp, ledger, sent, dispatched, catchUp } = setup();
+		const dm = xmtp.createDm();
+		ledger.record(sent(dm, "handled", 30), { status: "handled" });
+		sent(dm, "missed", 10);
+
+		await catchUp();
+		expect(await catchUp()).toBe(0);
+		expect(dispatched).toEqual(["missed"]);
+	});
+
+	test("covers conversations opened during the outage", async () => {
+		const { xmtp, ledger, sent, dispatched, catchUp } = setup();
+		ledger.record(sent(xmtp.createDm(), "handled", 30), { status: "handled" });
+		const group = xmtp.createGroup();
+		sent(group, "before-outage", 40);
+		sent(group, "new-chat", 10);
+
+		await catchUp();
+
+		expect(dispatched).toEqual(["new-chat"]);
+	});
+
+	test("never reaches back further than the max age", async () => {
+		const { xmtp, ledger, sent, dispatched, catchUp } = setup();
+		const dm = xmtp.createDm();
+		ledger.record(sent(dm, "handled", 120), { status: "handled" });
+		sent(dm, "too-old", 90);
+		sent(dm, "recent", 10);
+
+		expect(await catchUp(60 * MINUTE)).toBe(1);
+		expect(dispatched).toEqual(["recent"]);
+	});
+
+	test("does nothing on a fresh ledger", async () => {
+		const { xmtp, sent, dispatched, catchUp } = setup();
+		sent(xmtp.createDm(), "history", 10);
+
+		expect(await catchUp()).toBe(0);
+		expect(dispatched).toEqual([]);
+	});
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createChatSessions } from "@/helpers/chat-sessions";
+
+const directories: string[] = [];
+
+const storePath = (content?: object) => {
+	const directory = mkdtempSync(join(tmpdir(), "chat-sessions-"));
+	directories.push(directory);
+	const filePath = join(directory, "chat-sessions.json");
+	if (content) writeFileSync(filePath, JSON.stringify(content));
+	return filePath;
+};
+
+afterEach(() => {
+	for (const directory of directories.splice(0)) {
+		rmSync(directory, { recursive: true, force: true });
+	}
+});
+
+describe("createChatSessions", () => {
+	test("keeps the historical chat ID until the first reset", () => {
+		const sessions = createChatSessions({
+			filePath: storePath(),
+			now: () => 1,
+		});
+
+		expect(sessions.touch({ conversationId: "c1" })).toEqual({
+			chatId: "xmtp-c1",
+			startedAt: undefined,
+		});
+		expect(sessions.reset({ conversationId: "c1" }).chatId).toBe(
+			`xmtp-c1-${(1).toString(36)}`,
+		);
+	});
+
+	test("keeps the chat ID of sessions reset in the per-conversation store", () => {
+		let time = 5_000;
+		const sessions = createChatSessions({
+			filePath: storePath({
+				sessions: { c1: { version: 2, startedAt: 1_000 } },
+			}),
+			idleTimeoutMs: 60_000,
+			now: () => time,
+		});
+
+		// idle time counts from the migration, not from the reset
+		time += 30_000;
+		expect(sessions.touch({ conversationId: "c1" })).toEqual({
+			chatId: "xmtp-c1-2",
+			startedAt: 1_000,
+		});
+		expect(sessions.reset({ conversationId: "c1" }).chatId).toBe(
+			`xmtp-c1-${time.toString(36)}`,
+		);
+	});
+
+	test("starts a new session after the idle timeout", () => {
+		let time = 1_000;
+		const sessions = createChatSessions({
+			filePath: storePath(),
+			idleTimeoutMs: 60_000,
+			now: () => time,
+		});
+		const key = { conversationId: "c1", scopeId: "alice" };
+
+		const first = sessions.touch(key);
+		time += 30_000;
+		expect(sessions.touch(key)).toEqual(first);
+		time += 61_000;
+		expect(sessions.touch(key).chatId).toBe(
+			`xmtp-c1-alice-${time.toString(36)}`,
+		);
+	});
+});
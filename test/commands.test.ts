@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type Command,
+	createCommandRegistry,
+	stripMention,
+} from "@/helpers/commands";
+import { createMessageHandler } from "@/helpers/message-handler";
+import {
+	createFakeAgent,
+	createFakeHandlerDeps,
+	createFakeXmtp,
+} from "@/test/fake-xmtp";
+
+const MENTIONS = ["@bitte", "@bitte.base.eth", "@0xabc"];
+
+const command = (name: string): Command => ({
+	name,
+	description: `The ${name} command`,
+	run: ({ args }) => `${name}: ${args}`,
+});
+
+const registry = createCommandRegistry([command("help"), command("reset")]);
+
+const parse = (text: string, mentions = MENTIONS) => {
+	const parsed = registry.parse(text, mentions);
+	return parsed && { name: parsed.command.name, args: parsed.args };
+};
+
+describe("stripMention", () => {
+	test("strips the mention the message starts with", () => {
+		expect(stripMention("@bitte price of ETH", MENTIONS)).toBe("price of ETH");
+		expect(stripMention("  @BITTE: gm", MENTIONS)).toBe("gm");
+		expect(stripMention("@0xabc, gm", MENTIONS)).toBe("gm");
+	});
+
+	test("strips the longest matching mention", () => {
+		expect(stripMention("@bitte.base.eth /help", MENTIONS)).toBe("/help");
+		expect(stripMention("@bitte.base.eth /help", ["@bitte"])).toBe(
+			".base.eth /help",
+		);
+	});
+
+	test("keeps mentions elsewhere in the message", () => {
+		expect(stripMention("ask @bitte about ETH", MENTIONS)).toBe(
+			"ask @bitte about ETH",
+		);
+	});
+});
+
+describe("parse", () => {
+	test("finds commands in DMs and after a mention in groups", () => {
+		expect(parse("/help")).toEqual({ name: "help", args: "" });
+		expect(parse("@bitte /help")).toEqual({ name: "help", args: "" });
+		expect(parse("@bitte.base.eth, /reset")).toEqual({
+			name: "reset",
+			args: "",
+		});
+	});
+
+	test("matches command names case-insensitively", () => {
+		expect(parse("/HELP")).toEqual({ name: "help", args: "" });
+	});
+
+	test("passes the rest of the message as arguments", () => {
+		expect(parse("/help swaps  ")).toEqual({ name: "help", args: "swaps" });
+		expect(parse("/reset\nall of it")).toEqual({
+			name: "reset",
+			args: "all of it",
+		});
+	});
+
+	test("leaves unknown commands to the agent", () => {
+		expect(parse("/swap 1 ETH to USDC")).toBeUndefined();
+		expect(parse("@bitte /nft floor")).toBeUndefined();
+	});
+
+	test("leaves plain messages starting with a slash to the agent", () => {
+		expect(parse("/")).toBeUndefined();
+		expect(parse("/ help")).toBeUndefined();
+		expect(parse("/help/me please")).toBeUndefined();
+		expect(parse("/usr/bin is where it lives")).toBeUndefined();
+	});
+
+	test("needs the command at the start", () => {
+		expect(parse("what does /help do?")).toBeUndefined();
+		expect(parse("@someone /help")).toBeUndefined();
+	});
+});
+
+describe("commands in the message handler", () => {
+	const setup = () => {
+		const xmtp = createFakeXmtp();
+		const { agent, calls } = createFakeAgent();
+		const handleMessage = createMessageHandler({
+			...createFakeHandlerDeps({ xmtp, agent }),
+			commands: registry,
+		});
+		return { xmtp, calls, handleMessage };
+	};
+
+	test("answers commands without the agent", async () => {
+		const { xmtp, calls, handleMessage } = setup();
+		const group = xmtp.createGroup();
+
+		await handleMessage(
+			xmtp.receive(group, {
+				senderInboxId: "alice",
+				content: "@bitte /help me",
+			}),
+		);
+
+		expect(calls).toHaveLength(0);
+		expect(
+			group.sent.some(({ content }) =>
+				JSON.stringify(content).includes("help: me"),
+			),
+		).toBe(true);
+	});
+
+	test("sends unknown commands to the agent", async () => {
+		const { xmtp, calls, handleMessage } = setup();
+		const dm = xmtp.createDm();
+
+		await handleMessage(
+			xmtp.receive(dm, { senderInboxId: "alice", content: "/swap 1 ETH" }),
+		);
+
+		expect(calls.map(({ message }) => message)).toEqual(["/swap 1 ETH"]);
+	});
+});
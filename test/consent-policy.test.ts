@@ -0,0 +1,351 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type Consent,
+	ConsentEntityType,
+	ConsentState,
+	Dm,
+	Group,
+	IdentifierKind,
+} from "@xmtp/node-sdk";
+import {
+	type ConsentClient,
+	type ConsentDecision,
+	type ConsentPolicy,
+	createConsentManager,
+	evaluateConsentPolicy,
+} from "@/helpers/consent-policy";
+
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+const MALLORY = "0x000000000000000000000000000000000000bad0";
+
+const policy = (overrides: Partial<ConsentPolicy> = {}): ConsentPolicy => ({
+	mode: "manual",
+	allowlist: [],
+	denylist: [],
+	conversationTypes: "all",
+	...overrides,
+});
+
+// The manager tells DMs from groups with instanceof, so fake over the real classes
+const dm = (
+	id: string,
+	peerInboxId: string,
+	consentState = ConsentState.Unknown,
+) =>
+	Object.create(Dm.prototype, {
+		id: { value: id },
+		peerInboxId: { value: peerInboxId },
+		consentState: { value: consentState },
+	}) as Dm<unknown>;
+
+const group = (
+	id: string,
+	addedByInboxId: string,
+	consentState = ConsentState.Unknown,
+) =>
+	Object.create(Group.prototype, {
+		id: { value: id },
+		addedByInboxId: { value: addedByInboxId },
+		consentState: { value: consentState },
+	}) as Group<unknown>;
+
+const setup = ({
+	addresses = {},
+	conversations = [],
+	inboxConsent = {},
+}: {
+	addresses?: Record<string, string[]>;
+	conversations?: (Dm<unknown> | Group<unknown>)[];
+	inboxConsent?: Record<string, ConsentState>;
+} = {}) => {
+	const updates: Consent[][] = [];
+	let lists = 0;
+	const client: ConsentClient = {
+		conversations: {
+			list: async () => {
+				lists++;
+				return conversations;
+			},
+		},
+		preferences: {
+			setConsentStates: async (consentStates) => {
+				updates.push(consentStates);
+			},
+			getConsentState: async (_entityType, entity) =>
+				inboxConsent[entity] ?? ConsentState.Unknown,
+			inboxStateFromInboxIds: async (inboxIds) =>
+				inboxIds.map((inboxId) => ({
+					identifiers: (addresses[inboxId] ?? []).map((identifier) => ({
+						identifier,
+						identifierKind: IdentifierKind.Ethereum,
+					})),
+				})),
+		},
+	};
+	return { client, updates, lists: () => lists };
+};
+
+describe("evaluateConsentPolicy", () => {
+	const cases: {
+		name: string;
+		policy: Partial<ConsentPolicy>;
+		kind: "dm" | "group";
+		expected: ConsentDecision;
+	}[] = [
+		{
+			name: "manual leaves everyone",
+			policy: {},
+			kind: "dm",
+			expected: "ignore",
+		},
+		{
+			name: "auto allows everyone",
+			policy: { mode: "auto" },
+			kind: "dm",
+			expected: "allow",
+		},
+		{
+			name: "allowlist allows a listed sender",
+			policy: { mode: "allowlist", allowlist: [ALICE] },
+			kind: "dm",
+			expected: "allow",
+		},
+		{
+			name: "allowlist leaves an unlisted sender",
+			policy: { mode: "allowlist", allowlist: [MALLORY] },
+			kind: "dm",
+			expected: "ignore",
+		},
+		{
+			name: "the denylist wins over auto",
+			policy: { mode: "auto", denylist: [ALICE] },
+			kind: "dm",
+			expected: "deny",
+		},
+		{
+			name: "the denylist wins over the allowlist",
+			policy: { mode: "allowlist", allowlist: [ALICE], denylist: [ALICE] },
+			kind: "group",
+			expected: "deny",
+		},
+		{
+			name: "the denylist applies in manual mode",
+			policy: { denylist: [ALICE] },
+			kind: "dm",
+			expected: "deny",
+		},
+		{
+			name: "the denylist applies to uncovered conversation types",
+			policy: { mode: "auto", denylist: [ALICE], conversationTypes: "dm" },
+			kind: "group",
+			expected: "deny",
+		},
+		{
+			name: "auto leaves groups when only DMs are covered",
+			policy: { mode: "auto", conversationTypes: "dm" },
+			kind: "group",
+			expected: "ignore",
+		},
+		{
+			name: "auto leaves DMs when only groups are covered",
+			policy: { mode: "auto", conversationTypes: "group" },
+			kind: "dm",
+			expected: "ignore",
+		},
+		{
+			name: "auto allows a covered conversation type",
+			policy: { mode: "auto", conversationTypes: "group" },
+			kind: "group",
+			expected: "allow",
+		},
+	];
+
+	for (const { name, policy: overrides, kind, expected } of cases) {
+		test(name, () => {
+			expect(
+				evaluateConsentPolicy(policy(overrides), {
+					kind,
+					identifiers: ["alice-inbox", ALICE],
+				}),
+			).toBe(expected);
+		});
+	}
+
+	test("matches identifiers in any case", () => {
+		expect(
+			evaluateConsentPolicy(policy({ mode: "allowlist", allowlist: [ALICE] }), {
+				kind: "dm",
+				identifiers: [ALICE.toUpperCase()],
+			}),
+		).toBe("allow");
+	});
+});
+
+describe("createConsentManager", () => {
+	test("allows a conversation the policy allows", async () => {
+		const { client, updates } = setup({ addresses: { alice: [ALICE] } });
+		const manager = createConsentManager({
+			client,
+			policy: policy({ mode: "allowlist", allowlist: [ALICE] }),
+		});
+
+		expect(await manager.applyToConversation(dm("c1", "alice"))).toBe("allow");
+		expect(updates).toEqual([
+			[
+				{
+					entityType: ConsentEntityType.GroupId,
+					entity: "c1",
+					state: ConsentState.Allowed,
+				},
+			],
+		]);
+	});
+
+	test("denies the conversation and blocks the sender's inbox", async () => {
+		const { client, updates } = setup({ addresses: { mallory: [MALLORY] } });
+		const manager = createConsentManager({
+			client,
+			policy: policy({ mode: "auto", denylist: [MALLORY] }),
+		});
+
+		expect(await manager.applyToConversation(dm("c1", "mallory"))).toBe("deny");
+		expect(updates).toEqual([
+			[
+				{
+					entityType: ConsentEntityType.GroupId,
+					entity: "c1",
+					state: ConsentState.Denied,
+				},
+				{
+					entityType: ConsentEntityType.InboxId,
+					entity: "mallory",
+					state: ConsentState.Denied,
+				},
+			],
+		]);
+	});
+
+	test("leaves consent unknown for senders the policy does not cover", async () => {
+		const { client, updates } = setup({ addresses: { bob: [] } });
+		const manager = createConsentManager({
+			client,
+			policy: policy({ mode: "allowlist", allowlist: [ALICE] }),
+		});
+
+		expect(await manager.applyToConversation(dm("c1", "bob"))).toBe("ignore");
+		expect(updates).toEqual([]);
+	});
+
+	test("never overrides an explicit decision", async () => {
+		const { client, updates } = setup({ addresses: { mallory: [MALLORY] } });
+		const manager = createConsentManager({
+			client,
+			policy: policy({ mode: "auto", denylist: [MALLORY] }),
+		});
+
+		for (const state of [ConsentState.Allowed, ConsentState.Denied]) {
+			expect(
+				await manager.applyToConversation(dm("c1", "mallory", state)),
+			).toBe("ignore");
+		}
+		expect(updates).toEqual([]);
+	});
+
+	describe("groups", () => {
+		// The admin who added the agent decides, not the other members
+		test("allows a group added by an allowlisted admin", async () => {
+			const { client, updates } = setup({ addresses: { alice: [ALICE] } });
+			const manager = createConsentManager({
+				client,
+				policy: policy({ mode: "allowlist", allowlist: [ALICE] }),
+			});
+
+			expect(await manager.applyToConversation(group("g1", "alice"))).toBe(
+				"allow",
+			);
+			expect(updates[0]?.[0]).toMatchObject({
+				entity: "g1",
+				state: ConsentState.Allowed,
+			});
+		});
+
+		test("leaves a group added by anyone else", async () => {
+			const { client, updates } = setup({
+				addresses: { alice: [ALICE], bob: [] },
+			});
+			const manager = createConsentManager({
+				client,
+				policy: policy({ mode: "allowlist", allowlist: [ALICE] }),
+			});
+
+			expect(await manager.applyToConversation(group("g1", "bob"))).toBe(
+				"ignore",
+			);
+			expect(updates).toEqual([]);
+		});
+
+		test("denies a group added by a denylisted admin and blocks them", async () => {
+			const { client, updates } = setup({ addresses: { mallory: [MALLORY] } });
+			const manager = createConsentManager({
+				client,
+				policy: policy({ mode: "auto", denylist: [MALLORY] }),
+			});
+
+			expect(await manager.applyToConversation(group("g1", "mallory"))).toBe(
+				"deny",
+			);
+			expect(updates[0]?.[1]).toEqual({
+				entityType: ConsentEntityType.InboxId,
+				entity: "mallory",
+				state: ConsentState.Denied,
+			});
+		});
+	});
+
+	test("applies the policy to pending conversations", async () => {
+		const { client } = setup({
+			addresses: { alice: [ALICE], bob: [], mallory: [MALLORY] },
+			conversations: [
+				dm("c1", "alice"),
+				dm("c2", "bob"),
+				group("g1", "alice"),
+				dm("c3", "mallory"),
+			],
+		});
+		const manager = createConsentManager({
+			client,
+			policy: policy({
+				mode: "allowlist",
+				allowlist: [ALICE],
+				denylist: [MALLORY],
+			}),
+		});
+
+		const allowed = await manager.applyToPending();
+
+		expect(allowed.map(({ id }) => id)).toEqual(["c1", "g1"]);
+	});
+
+	test("skips the pending pass when the policy can decide nothing", async () => {
+		const { client, lists } = setup({ conversations: [dm("c1", "alice")] });
+		const manager = createConsentManager({ client, policy: policy() });
+
+		expect(await manager.applyToPending()).toEqual([]);
+		expect(lists()).toBe(0);
+	});
+
+	test("blocks denied inboxes and denylisted addresses", async () => {
+		const { client } = setup({
+			addresses: { alice: [ALICE], mallory: [MALLORY] },
+			inboxConsent: { eve: ConsentState.Denied },
+		});
+		const manager = createConsentManager({
+			client,
+			policy: policy({ denylist: [MALLORY] }),
+		});
+
+		expect(await manager.isBlocked("eve")).toBe(true);
+		expect(await manager.isBlocked("mallory")).toBe(true);
+		expect(await manager.isBlocked("alice")).toBe(false);
+	});
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { ContentTypeReaction } from "@xmtp/content-type-reaction";
+import { buildConversationHistory } from "@/helpers/conversation-history";
+import { createFakeMessage, createFakeXmtp } from "@/test/fake-xmtp";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const START = Date.parse("2026-01-01T00:00:00Z");
+
+const setup = (kind: "dm" | "group" = "dm") => {
+	const xmtp = createFakeXmtp({ addresses: { alice: [ALICE], bob: [BOB] } });
+	const conversation =
+		kind === "dm" ? xmtp.createDm("dm-1") : xmtp.createGroup("group-1");
+	let minute = 0;
+
+	// Messages a minute apart, so their order is unambiguous
+	const say = (
+		senderInboxId: string,
+		content: unknown,
+		contentType?: typeof ContentTypeReaction,
+	) => {
+		const message = createFakeMessage({
+			conversationId: conversation.id,
+			senderInboxId,
+			content,
+			contentType,
+			sentAt: new Date(START + minute++ * 60_000),
+		});
+		conversation.history.push(message);
+		return message;
+	};
+	const react = (senderInboxId: string) =>
+		say(
+			senderInboxId,
+			{ reference: "x", action: "added", content: "👍", schema: "unicode" },
+			ContentTypeReaction,
+		);
+
+	const history = (
+		before: ReturnType<typeof say>,
+		options: { maxMessages?: number; maxChars?: number; since?: number } = {},
+	) =>
+		buildConversationHistory({
+			client: xmtp.client,
+			conversation,
+			before,
+			since: options.since,
+			isGroup: kind === "group",
+			options: {
+				maxMessages: options.maxMessages ?? 10,
+				maxChars: options.maxChars ?? 10_000,
+			},
+		});
+
+	return { say, react, history };
+};
+
+describe("buildConversationHistory", () => {
+	test("turns earlier messages into user and assistant turns", async () => {
+		const { say, history } = setup();
+		say("alice", "price of ETH?");
+		say("agent-inbox", "About $3,000");
+		const before = say("alice", "and BTC?");
+		say("alice", "sent later");
+
+		expect(await history(before)).toEqual([
+			{ role: "user", content: "price of ETH?" },
+			{ role: "assistant", content: "About $3,000" },
+		]);
+	});
+
+	test("leaves out reactions and other non-text messages", async () => {
+		const { say, react, history } = setup();
+		say("alice", "gm");
+		react("agent-inbox");
+		say("agent-inbox", "gm!");
+		react("alice");
+
+		expect(await history(say("alice", "what's new?"))).toEqual([
+			{ role: "user", content: "gm" },
+			{ role: "assistant", content: "gm!" },
+		]);
+	});
+
+	test("collects maxMessages text turns past a run of reactions", async () => {
+		const { say, react, history } = setup();
+		say("alice", "first");
+		say("agent-inbox", "second");
+		say("alice", "third");
+		for (let i = 0; i < 10; i++) react("alice");
+
+		expect(await history(say("alice", "now"), { maxMessages: 2 })).toEqual([
+			{ role: "assistant", content: "second" },
+			{ role: "user", content: "third" },
+		]);
+	});
+
+	test("keeps the newest messages within the character budget", async () => {
+		const { say, history } = setup();
+		say("alice", "a".repeat(50));
+		say("agent-inbox", "b".repeat(50));
+		say("alice", "c".repeat(50));
+
+		expect(await history(say("alice", "now"), { maxChars: 120 })).toEqual([
+			{ role: "assistant", content: "b".repeat(50) },
+			{ role: "user", content: "c".repeat(50) },
+		]);
+	});
+
+	test("starts after a session reset", async () => {
+		const { say, history } = setup();
+		say("alice", "before the reset");
+		say("agent-inbox", "forgotten");
+		const since = START + 90_000;
+		say("alice", "after the reset");
+
+		expect(await history(say("alice", "now"), { since })).toEqual([
+			{ role: "user", content: "after the reset" },
+		]);
+	});
+
+	test("labels group speakers with their address", async () => {
+		const { say, history } = setup("group");
+		say("alice", "@bitte price of ETH?");
+		say("agent-inbox", "About $3,000");
+		say("bob", "thanks");
+		say("carol", "no address linked");
+
+		expect(await history(say("alice", "now"))).toEqual([
+			{ role: "user", content: "[0x1111...1111]: @bitte price of ETH?" },
+			{ role: "assistant", content: "About $3,000" },
+			{ role: "user", content: "[0x2222...2222]: thanks" },
+			{ role: "user", content: "[carol]: no address linked" },
+		]);
+	});
+
+	test("is empty when history is off", async () => {
+		const { say, history } = setup();
+		say("alice", "gm");
+
+		expect(await history(say("alice", "now"), { maxMessages: 0 })).toEqual([]);
+	});
+});
@@ -0,0 +1,189 @@
+import { describe, expect, test } from "bun:test";
+import { createConversationScheduler } from "@/helpers/conversation-scheduler";
+
+// A task that runs until released, recording when it starts
+const createGate = (log: string[], name: string) => {
+	let release = () => {};
+	const released = new Promise<void>((resolve) => {
+		release = resolve;
+	});
+	return {
+		task: async () => {
+			log.push(`start ${name}`);
+			await released;
+			log.push(`end ${name}`);
+		},
+		release,
+	};
+};
+
+// Let started tasks reach their first await
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createConversationScheduler", () => {
+	test("runs a conversation's tasks one at a time in arrival order", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 4 });
+		const log: string[] = [];
+		const first = createGate(log, "a1");
+		const second = createGate(log, "a2");
+
+		const done = [
+			scheduler.enqueue("a", first.task),
+			scheduler.enqueue("a", second.task),
+			scheduler.enqueue("a", async () => {
+				log.push("a3");
+			}),
+		];
+		await settle();
+		expect(log).toEqual(["start a1"]);
+
+		second.release();
+		first.release();
+		await Promise.all(done);
+
+		expect(log).toEqual(["start a1", "end a1", "start a2", "end a2", "a3"]);
+	});
+
+	test("runs different conversations side by side", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 4 });
+		const log: string[] = [];
+		const slow = createGate(log, "a");
+
+		const slowDone = scheduler.enqueue("a", slow.task);
+		await scheduler.enqueue("b", async () => {
+			log.push("b");
+		});
+
+		expect(log).toEqual(["start a", "b"]);
+		slow.release();
+		await slowDone;
+	});
+
+	test("caps the conversations running at once", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 2 });
+		const log: string[] = [];
+		const gates = ["a", "b", "c"].map((name) => ({
+			name,
+			...createGate(log, name),
+		}));
+
+		const done = gates.map(({ name, task }) => scheduler.enqueue(name, task));
+		await settle();
+
+		expect(log).toEqual(["start a", "start b"]);
+		expect(scheduler.stats()).toMatchObject({
+			active: 2,
+			queued: 1,
+			queueDepths: { c: 1 },
+		});
+
+		gates[1]?.release();
+		await settle();
+		expect(log).toEqual(["start a", "start b", "end b", "start c"]);
+
+		for (const gate of gates) gate.release();
+		await Promise.all(done);
+	});
+
+	test("takes waiting conversations in turn", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 1 });
+		const log: string[] = [];
+		const record = (name: string) => async () => {
+			log.push(name);
+		};
+
+		await Promise.all([
+			scheduler.enqueue("a", record("a1")),
+			scheduler.enqueue("a", record("a2")),
+			scheduler.enqueue("b", record("b1")),
+			scheduler.enqueue("a", record("a3")),
+		]);
+
+		// a does not get to run all of its queue before b
+		expect(log).toEqual(["a1", "b1", "a2", "a3"]);
+	});
+
+	test("keeps going after a failed task", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 1 });
+		const log: string[] = [];
+
+		await Promise.all([
+			scheduler.enqueue("a", async () => {
+				throw new Error("agent down");
+			}),
+			scheduler.enqueue("a", async () => {
+				log.push("a2");
+			}),
+		]);
+
+		expect(log).toEqual(["a2"]);
+		expect(scheduler.stats()).toMatchObject({ active: 0, queued: 0 });
+	});
+
+	test("tracks how long tasks waited", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 1 });
+		const log: string[] = [];
+		const slow = createGate(log, "a");
+
+		const done = [
+			scheduler.enqueue("a", slow.task),
+			scheduler.enqueue("b", async () => {}),
+		];
+		setTimeout(slow.release, 30);
+		await Promise.all(done);
+
+		const { wait } = scheduler.stats();
+		expect(wait.count).toBe(2);
+		expect(wait.maxMs).toBeGreaterThanOrEqual(25);
+		expect(wait.lastMs).toBe(wait.maxMs);
+	});
+
+	test("drops tasks that have not started on close", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 1 });
+		const log: string[] = [];
+		const running = createGate(log, "a1");
+
+		const done = [
+			scheduler.enqueue("a", running.task),
+			scheduler.enqueue("a", async () => {
+				log.push("a2");
+			}),
+			scheduler.enqueue("b", async () => {
+				log.push("b1");
+			}),
+		];
+		await settle();
+
+		expect(scheduler.close()).toBe(2);
+		await scheduler.enqueue("c", async () => {
+			log.push("c1");
+		});
+
+		// the running task still finishes
+		running.release();
+		await Promise.all(done);
+		expect(log).toEqual(["start a1", "end a1"]);
+	});
+
+	test("reports idle once nothing runs or waits", async () => {
+		const scheduler = createConversationScheduler({ maxConcurrent: 2 });
+		const log: string[] = [];
+		const gate = createGate(log, "a");
+		await scheduler.idle();
+
+		void scheduler.enqueue("a", gate.task);
+		void scheduler.enqueue("a", async () => {
+			log.push("a2");
+		});
+		let idle = false;
+		const idled = scheduler.idle().then(() => {
+			idle = true;
+		});
+		await settle();
+		expect(idle).toBe(false);
+
+		gate.release();
+		await idled;
+		expect(log).toEqual(["start a", "end a", "a2"]);
+	});
+});
@@ -0,0 +1,257 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import {
+	createCompletionCollector,
+	createLineSplitter,
+	type DataStreamEvent,
+	parseDataStreamLine,
+	readDataStream,
+} from "@/helpers/data-stream-parser";
+
+const fixture = (name: string) =>
+	readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+// A response body that arrives in chunks of `size` bytes, so lines and
+// multi-byte characters are cut at arbitrary points
+const toBody = (text: string, size = Number.POSITIVE_INFINITY) => {
+	const bytes = new TextEncoder().encode(text);
+	return new ReadableStream<Uint8Array>({
+		start: (controller) => {
+			for (let offset = 0; offset < bytes.length; offset += size) {
+				controller.enqueue(bytes.slice(offset, offset + size));
+			}
+			controller.close();
+		},
+	});
+};
+
+const collect = async (
+	body: ReadableStream<Uint8Array>,
+	onInvalidLine?: (line: string, error: unknown) => void,
+) => {
+	const events: DataStreamEvent[] = [];
+	const collector = createCompletionCollector();
+	for await (const event of readDataStream(body, onInvalidLine)) {
+		events.push(event);
+		collector.add(event);
+	}
+	return { events, completion: collector.result() };
+};
+
+describe("parseDataStreamLine", () => {
+	test("parses a typed part", () => {
+		expect(parseDataStreamLine('0:"gm"')).toEqual({
+			type: "text",
+			value: "gm",
+		});
+	});
+
+	test("ignores empty lines and unknown codes", () => {
+		expect(parseDataStreamLine("  ")).toBeUndefined();
+		expect(parseDataStreamLine('z:{"future":true}')).toBeUndefined();
+	});
+
+	test("reads legacy 1: tool calls", () => {
+		expect(
+			parseDataStreamLine(
+				'1:{"toolCallId":"call-1","toolName":"get-price","args":{"symbol":"ETH"}}',
+			),
+		).toEqual({
+			type: "tool_call",
+			value: {
+				toolCallId: "call-1",
+				toolName: "get-price",
+				args: { symbol: "ETH" },
+			},
+		});
+		expect(parseDataStreamLine('1:{"function_call":{}}')).toBeUndefined();
+	});
+
+	test("throws on a payload that does not match its code", () => {
+		expect(() => parseDataStreamLine('0:"cut off')).toThrow();
+		expect(() => parseDataStreamLine("no separator")).toThrow();
+	});
+});
+
+describe("createLineSplitter", () => {
+	test("keeps a line cut across chunks until it is complete", () => {
+		const splitter = createLineSplitter();
+		expect(splitter.push('0:"g')).toEqual([]);
+		expect(splitter.push('m"\n0:"a')).toEqual(['0:"gm"']);
+		expect(splitter.end()).toEqual(['0:"a']);
+	});
+});
+
+describe("readDataStream", () => {
+	test("pairs a tool call with its result", async () => {
+		const { completion } = await collect(
+			toBody(fixture("bitte-tool-call.txt")),
+		);
+
+		expect(completion.messageId).toBe("msg-5Yx3kQ9dTz1cW7pA");
+		expect(completion.content).toBe(
+			"Let me prepare that transfer for you. Sign it in your wallet 👛 to send 0.001 ETH.",
+		);
+		expect(completion.finishReason).toBe("stop");
+		expect(completion.toolCalls).toHaveLength(1);
+		expect(completion.toolCalls[0]).toMatchObject({
+			toolCallId: "call_Q2m8xV1rL0aF",
+			toolName: "generate-evm-tx",
+			args: { amount: "0.001", network: 8453 },
+			result: {
+				data: { evmSignRequest: { method: "eth_sendTransaction" } },
+			},
+			ui: { type: "transaction" },
+		});
+		expect(completion.isError).toBeUndefined();
+	});
+
+	test("hands out the paired call when its result arrives", async () => {
+		const collector = createCompletionCollector();
+		const paired = [];
+		for await (const event of readDataStream(
+			toBody(fixture("bitte-tool-call.txt")),
+		)) {
+			const toolCall = collector.add(event);
+			if (toolCall) paired.push(toolCall);
+		}
+
+		expect(paired).toHaveLength(1);
+		expect(paired[0]?.toolName).toBe("generate-evm-tx");
+	});
+
+	test("marks the completion failed on 3: error parts", async () => {
+		const { completion } = await collect(toBody(fixture("bitte-error.txt")));
+
+		expect(completion.content).toBe("Checking prices");
+		expect(completion.isError).toBe(true);
+		expect(completion.error).toBe(
+			"Tool execution failed: upstream price API timed out",
+		);
+	});
+
+	test("assembles streamed b:/c: tool call parts", async () => {
+		const { events, completion } = await collect(
+			toBody(fixture("bitte-streaming-tool-call.txt")),
+		);
+
+		expect(events.map(({ type }) => type)).toContain("tool_call_delta");
+		expect(completion.toolCalls).toEqual([
+			{
+				toolCallId: "call_b8Zc3nYq",
+				toolName: "get-token-price",
+				args: { symbol: "ETH" },
+				result: { symbol: "ETH", usd: 3120.55 },
+			},
+		]);
+		expect(completion.content).toBe("ETH trades at $3,120.55.");
+	});
+
+	test("keeps streamed arguments when the full call never comes", async () => {
+		const { completion } = await collect(
+			toBody(
+				[
+					'b:{"toolCallId":"call-1","toolName":"get-token-price"}',
+					'c:{"toolCallId":"call-1","argsTextDelta":"{\\"symbol\\":"}',
+					'c:{"toolCallId":"call-1","argsTextDelta":"\\"ETH\\"}"}',
+				].join("\n"),
+			),
+		);
+
+		expect(completion.toolCalls).toEqual([
+			{
+				toolCallId: "call-1",
+				toolName: "get-token-price",
+				args: { symbol: "ETH" },
+			},
+		]);
+	});
+
+	test("reads legacy 1: tool calls", async () => {
+		const { completion } = await collect(
+			toBody(fixture("bitte-legacy-tool-call.txt")),
+		);
+
+		expect(completion.toolCalls).toEqual([
+			{
+				toolCallId: "call_legacy1",
+				toolName: "get-token-price",
+				args: { symbol: "USDC" },
+				result: { symbol: "USDC", usd: 1 },
+			},
+		]);
+		expect(completion.content).toBe("USDC is at $1.");
+	});
+
+	test("takes the turn's usage from the message finish", async () => {
+		const { completion } = await collect(
+			toBody(fixture("bitte-tool-call.txt")),
+		);
+
+		expect(completion.usage).toEqual({
+			promptTokens: 250,
+			completionTokens: 30,
+		});
+	});
+
+	test("adds up step usages when the message finish is missing", async () => {
+		const text = fixture("bitte-tool-call.txt");
+		const { completion } = await collect(
+			toBody(text.slice(0, text.lastIndexOf("d:"))),
+		);
+
+		expect(completion.usage).toEqual({
+			promptTokens: 250,
+			completionTokens: 30,
+		});
+	});
+
+	test("ignores usages without token counts", async () => {
+		// The AI SDK sends NaN, null in JSON, when the provider reports nothing
+		const { completion } = await collect(
+			toBody(
+				[
+					'0:"gm"',
+					'e:{"finishReason":"stop","usage":{"promptTokens":12,"completionTokens":3},"isContinued":false}',
+					'e:{"finishReason":"stop","usage":{"promptTokens":null,"completionTokens":null},"isContinued":false}',
+					'd:{"finishReason":"stop","usage":{"promptTokens":null,"completionTokens":5}}',
+				].join("\n"),
+			),
+		);
+
+		expect(completion.usage).toEqual({ promptTokens: 12, completionTokens: 3 });
+	});
+
+	test("gives the same parts whatever the chunk size", async () => {
+		const text = fixture("bitte-tool-call.txt");
+		const whole = await collect(toBody(text));
+
+		// 1 byte chunks also split the emoji's UTF-8 bytes
+		for (const size of [1, 3, 7, 64]) {
+			const chunked = await collect(toBody(text, size));
+			expect(chunked.events).toEqual(whole.events);
+		}
+	});
+
+	test("parses a final line without a newline", async () => {
+		const text = fixture("bitte-error.txt").trimEnd();
+		const { completion } = await collect(toBody(text, 5));
+
+		expect(completion.finishReason).toBe("error");
+		expect(completion.usage).toEqual({ promptTokens: 80, completionTokens: 4 });
+	});
+
+	test("skips a truncated final line and keeps what came before", async () => {
+		const text = fixture("bitte-tool-call.txt");
+		const truncated = text.slice(0, text.lastIndexOf("d:") + 20);
+		const invalid: string[] = [];
+
+		const { completion } = await collect(toBody(truncated, 16), (line) =>
+			invalid.push(line),
+		);
+
+		expect(invalid).toEqual([truncated.slice(truncated.lastIndexOf("d:"))]);
+		expect(completion.toolCalls).toHaveLength(1);
+		expect(completion.finishReason).toBe("stop");
+	});
+});
@@ -0,0 +1,94 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createPublicClient, http, type PublicClient } from "viem";
+
+export interface RpcError {
+	code: number;
+	message: string;
+	data?: string;
+}
+
+type RpcHandler = (params: unknown[]) => unknown | Promise<unknown>;
+
+const isRpcError = (value: unknown): value is RpcError =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (value as RpcError).code === "number";
+
+/**
+ * Local JSON-RPC server answering with the given handlers, a stand-in for a
+ * chain's RPC
+ *
+ * Handlers return the result, or a promise of it to answer late, or throw an
+ * `RpcError`. Methods without a handler answer "method not found", like nodes
+ * that don't support them.
+ */
+export const createFakeRpc = async (handlers: Record<string, RpcHandler>) => {
+	const requests: { method: string; params: unknown[] }[] = [];
+
+	const answer = async ({
+		id,
+		method,
+		params = [],
+	}: {
+		id: number;
+		method: string;
+		params?: unknown[];
+	}) => {
+		requests.push({ method, params });
+		const handler = handlers[method];
+		if (!handler) {
+			return {
+				jsonrpc: "2.0",
+				id,
+				error: { code: -32601, message: `Method not found: ${method}` },
+			};
+		}
+		try {
+			return { jsonrpc: "2.0", id, result: (await handler(params)) ?? null };
+		} catch (error) {
+			return {
+				jsonrpc: "2.0",
+				id,
+				error: isRpcError(error)
+					? error
+					: { code: -32603, message: String(error) },
+			};
+		}
+	};
+
+	const server = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", async () => {
+			const payload = JSON.parse(body);
+			const result = Array.isArray(payload)
+				? await Promise.all(payload.map(answer))
+				: await answer(payload);
+			// the client gave up meanwhile
+			if (res.destroyed) return;
+			res
+				.writeHead(200, { "Content-Type": "application/json" })
+				.end(JSON.stringify(result));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+	const { port } = server.address() as AddressInfo;
+
+	// No retries or cached block numbers, tests change answers between calls
+	const client = createPublicClient({
+		cacheTime: 0,
+		transport: http(`http://localhost:${port}`, { retryCount: 0 }),
+	}) as PublicClient;
+
+	return {
+		client,
+		requests,
+		stop: () => {
+			server.closeAllConnections();
+			server.close();
+		},
+	};
+};
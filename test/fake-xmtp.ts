@@ -0,0 +1,231 @@
+/**
+ * In-memory XMTP fakes
+ *
+ * Stand-ins for the XMTP client, conversations and decoded messages so the
+ * message pipeline can be exercised without a network or a local database.
+ */
+
+import type { Reaction } from "@xmtp/content-type-reaction";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { IdentifierKind, SortDirection } from "@xmtp/node-sdk";
+import type {
+	AgentClient,
+	AgentConversation,
+	AgentMessage,
+	AgentService,
+	CompletionResponse,
+	ContentTypeId,
+	ConversationKind,
+	MessageHandlerDeps,
+} from "@/helpers/message-handler";
+import type { ClientContentTypes } from "@/server";
+
+export interface SentMessage {
+	content: ClientContentTypes;
+	contentType?: ContentTypeId;
+}
+
+export interface FakeConversation extends AgentConversation {
+	kind: ConversationKind;
+	// Every message in the conversation, incoming and outgoing, oldest first
+	history: AgentMessage[];
+	// Only what the agent sent
+	sent: SentMessage[];
+}
+
+let nextId = 0;
+const fakeId = (prefix: string) => `${prefix}-${++nextId}`;
+
+export const createFakeMessage = ({
+	conversationId,
+	senderInboxId,
+	content,
+	contentType = ContentTypeText,
+	id = fakeId("message"),
+	sentAt = new Date(),
+	fallback,
+}: {
+	conversationId: string;
+	senderInboxId: string;
+	content: unknown;
+	contentType?: ContentTypeId;
+	id?: string;
+	sentAt?: Date;
+	fallback?: string;
+}): AgentMessage => ({
+	id,
+	conversationId,
+	senderInboxId,
+	content,
+	contentType,
+	fallback,
+	parameters: {},
+	sentAt,
+	sentAtNs: sentAt.getTime() * 1_000_000,
+});
+
+/**
+ * Create a fake client plus helpers to open conversations and receive messages
+ *
+ * @param agentInboxId - Inbox ID of the agent itself
+ * @param agentAddress - EVM address returned by the signer
+ * @param addresses - Inbox ID to linked EVM addresses, used by `inboxStateFromInboxIds`
+ */
+export const createFakeXmtp = ({
+	agentInboxId = "agent-inbox",
+	agentAddress = "0x00000000000000000000000000000000000a6e47",
+	addresses = {},
+}: {
+	agentInboxId?: string;
+	agentAddress?: string;
+	addresses?: Record<string, string[]>;
+} = {}) => {
+	const conversations = new Map<string, FakeConversation>();
+
+	const client: AgentClient = {
+		inboxId: agentInboxId,
+		signer: {
+			getIdentifier: () => ({
+				identifier: agentAddress,
+				identifierKind: IdentifierKind.Ethereum,
+			}),
+		},
+		conversations: {
+			getConversationById: async (id) => conversations.get(id),
+			getMessageById: (id) => {
+				for (const conversation of conversations.values()) {
+					const message = conversation.history.find((msg) => msg.id === id);
+					if (message) return message;
+				}
+				return undefined;
+			},
+		},
+		preferences: {
+			inboxStateFromInboxIds: async (inboxIds) =>
+				inboxIds.map((inboxId) => ({
+					inboxId,
+					identifiers: (addresses[inboxId] ?? []).map((identifier) => ({
+						identifier,
+						identifierKind: IdentifierKind.Ethereum,
+					})),
+				})),
+		},
+	};
+
+	const createConversation = (kind: ConversationKind, id = fakeId(kind)) => {
+		const conversation: FakeConversation = {
+			id,
+			kind,
+			history: [],
+			sent: [],
+			send: async (content, contentType) => {
+				conversation.sent.push({ content, contentType });
+				const message = createFakeMessage({
+					conversationId: id,
+					senderInboxId: agentInboxId,
+					content,
+					contentType,
+				});
+				conversation.history.push(message);
+				return message.id;
+			},
+			messages: async (options) => {
+				const messages = conversation.history.filter(
+					(msg) =>
+						(options?.sentAfterNs === undefined ||
+							msg.sentAtNs > options.sentAfterNs) &&
+						(options?.sentBeforeNs === undefined ||
+							msg.sentAtNs < options.sentBeforeNs),
+				);
+				if (options?.direction === SortDirection.Descending) {
+					messages.reverse();
+				}
+				return options?.limit ? messages.slice(0, options.limit) : messages;
+			},
+		};
+		conversations.set(id, conversation);
+		return conversation;
+	};
+
+	/**
+	 * Record an incoming message in the conversation history and return it,
+	 * ready to be passed to a message handler
+	 */
+	const receive = (
+		conversation: FakeConversation,
+		message: Omit<Parameters<typeof createFakeMessage>[0], "conversationId">,
+	) => {
+		const decoded = createFakeMessage({
+			...message,
+			conversationId: conversation.id,
+		});
+		conversation.history.push(decoded);
+		return decoded;
+	};
+
+	return {
+		client,
+		conversations,
+		createDm: (id?: string) => createConversation("dm", id),
+		createGroup: (id?: string) => createConversation("group", id),
+		receive,
+		getConversationKind: (conversation: AgentConversation) =>
+			(conversation as FakeConversation).kind,
+	};
+};
+
+/**
+ * Create a scripted agent that answers with the given completions in order
+ * (the last one repeats) and records every request it receives
+ */
+export const createFakeAgent = (
+	completions: CompletionResponse[] = [{ content: "ok" }],
+	reaction = "👍",
+) => {
+	const calls: Parameters<AgentService["sendToAgent"]>[0][] = [];
+	const reactions: Parameters<AgentService["generateReaction"]>[0][] = [];
+
+	const agent: AgentService = {
+		sendToAgent: async (params) => {
+			calls.push(params);
+			return (
+				completions[Math.min(calls.length - 1, completions.length - 1)] ?? {
+					content: "",
+				}
+			);
+		},
+		generateReaction: async (params): Promise<Reaction> => {
+			reactions.push(params);
+			return {
+				reference: params.reference,
+				referenceInboxId: params.referenceInboxId,
+				action: "added",
+				content: reaction,
+				schema: "unicode",
+			};
+		},
+	};
+
+	return { agent, calls, reactions };
+};
+
+/**
+ * Wire a fake client and agent into message handler dependencies
+ */
+export const createFakeHandlerDeps = ({
+	xmtp = createFakeXmtp(),
+	agent = createFakeAgent().agent,
+	agentChatId = "bitte.base.eth",
+	welcome,
+}: {
+	xmtp?: ReturnType<typeof createFakeXmtp>;
+	agent?: AgentService;
+	agentChatId?: string;
+	welcome?: MessageHandlerDeps["welcome"];
+} = {}): MessageHandlerDeps => ({
+	client: xmtp.client,
+	agent,
+	agentChatId,
+	welcome,
+	getConversationKind: xmtp.getConversationKind,
+});
@@ -0,0 +1,295 @@
+import { describe, expect, test } from "bun:test";
+import { ContentTypeReply, type Reply } from "@xmtp/content-type-reply";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { ContentTypeTransactionReference } from "@xmtp/content-type-transaction-reference";
+import {
+	ContentTypeWalletSendCalls,
+	type WalletSendCallsParams,
+} from "@xmtp/content-type-wallet-send-calls";
+import {
+	type CompletionResponse,
+	createMessageHandler,
+	type WelcomeOptions,
+} from "@/helpers/message-handler";
+import {
+	createFakeAgent,
+	createFakeHandlerDeps,
+	createFakeXmtp,
+} from "@/test/fake-xmtp";
+
+const SENDER = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+
+const setup = (
+	completions?: CompletionResponse[],
+	welcome?: WelcomeOptions,
+) => {
+	const xmtp = createFakeXmtp({ addresses: { alice: [SENDER] } });
+	const { agent, calls } = createFakeAgent(completions);
+	const handleMessage = createMessageHandler(
+		createFakeHandlerDeps({ xmtp, agent, welcome }),
+	);
+	return { xmtp, calls, handleMessage };
+};
+
+const createWelcome = (forwardFirstMessage = true): WelcomeOptions => {
+	const welcomed = new Set<string>();
+	return {
+		tracker: {
+			hasWelcomed: (conversationId) => welcomed.has(conversationId),
+			markWelcomed: (conversationId) => {
+				welcomed.add(conversationId);
+			},
+			flush: async () => {},
+		},
+		dmMessage: "Welcome to the DM",
+		groupMessage: "Welcome to the group",
+		forwardFirstMessage,
+	};
+};
+
+// What the agent sent, without the reaction to the incoming message
+const replies = (sent: { contentType?: { typeId: string } }[]) =>
+	sent.filter(({ contentType }) => contentType?.typeId !== "reaction");
+
+describe("createMessageHandler", () => {
+	test("answers a DM with plain text", async () => {
+		const { xmtp, calls, handleMessage } = setup([{ content: "gm!" }]);
+		const dm = xmtp.createDm();
+
+		const outcome = await handleMessage(
+			xmtp.receive(dm, { senderInboxId: "alice", content: "gm" }),
+		);
+
+		expect(outcome).toEqual({ status: "handled" });
+		expect(calls).toHaveLength(1);
+		expect(calls[0]?.message).toBe("gm");
+		expect(calls[0]?.evmAddress).toBe(SENDER);
+		expect(replies(dm.sent)).toEqual([
+			{ content: "gm!", contentType: ContentTypeText },
+		]);
+	});
+
+	test("ignores a group message without a mention", async () => {
+		const { xmtp, calls, handleMessage } = setup();
+		const group = xmtp.createGroup();
+
+		const outcome = await handleMessage(
+			xmtp.receive(group, { senderInboxId: "alice", content: "gm all" }),
+		);
+
+		expect(outcome).toEqual({ status: "skipped", reason: "not_addressed" });
+		expect(calls).toHaveLength(0);
+		expect(group.sent).toHaveLength(0);
+	});
+
+	test("replies in a thread to a group message that mentions the agent", async () => {
+		const { xmtp, calls, handleMessage } = setup([{ content: "Hi there" }]);
+		const group = xmtp.createGroup();
+		const message = xmtp.receive(group, {
+			senderInboxId: "alice",
+			content: "@bitte what's the ETH price?",
+		});
+
+		expect(await handleMessage(message)).toEqual({ status: "handled" });
+		expect(calls).toHaveLength(1);
+
+		const [reply] = replies(group.sent);
+		expect(reply?.contentType).toBe(ContentTypeReply);
+		expect(reply?.content as Reply).toMatchObject({
+			reference: message.id,
+			content: "Hi there",
+		});
+	});
+
+	test("answers a reply to one of the agent's messages", async () => {
+		const { xmtp, calls, handleMessage } = setup([{ content: "Sure" }]);
+		const group = xmtp.createGroup();
+		await group.send("Anything else?", ContentTypeText);
+		const agentMessage = group.history[0];
+
+		const outcome = await handleMessage(
+			xmtp.receive(group, {
+				senderInboxId: "alice",
+				contentType: ContentTypeReply,
+				content: {
+					reference: agentMessage?.id,
+					contentType: ContentTypeText,
+					content: "yes please",
+				},
+			}),
+		);
+
+		expect(outcome).toEqual({ status: "handled" });
+		expect(calls).toHaveLength(1);
+	});
+
+	test("skips the agent's own messages", async () => {
+		const { xmtp, calls, handleMessage } = setup();
+		const dm = xmtp.createDm();
+
+		const outcome = await handleMessage(
+			xmtp.receive(dm, { senderInboxId: "agent-inbox", content: "gm" }),
+		);
+
+		expect(outcome).toEqual({ status: "skipped", reason: "own_message" });
+		expect(calls).toHaveLength(0);
+	});
+
+	test("turns an evmSignRequest tool result into WalletSendCalls", async () => {
+		const { xmtp, handleMessage } = setup([
+			{
+				content: "Here is your transaction",
+				toolCalls: [
+					{
+						toolCallId: "call-1",
+						toolName: "generate-evm-tx",
+						args: {},
+						result: {
+							data: {
+								evmSignRequest: {
+									method: "eth_sendTransaction",
+									chainId: 8453,
+									params: [
+										{
+											from: SENDER,
+											to: RECIPIENT,
+											value: "0x38d7ea4c68000",
+											data: "0x",
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		]);
+		const dm = xmtp.createDm();
+
+		await handleMessage(
+			xmtp.receive(dm, {
+				senderInboxId: "alice",
+				content: "send 0.001 ETH to my friend",
+			}),
+		);
+
+		const walletSendCalls = dm.sent.find(({ contentType }) =>
+			contentType?.sameAs(ContentTypeWalletSendCalls),
+		)?.content as WalletSendCallsParams | undefined;
+		expect(walletSendCalls).toMatchObject({
+			chainId: "0x2105",
+			from: SENDER,
+			calls: [
+				{
+					to: RECIPIENT,
+					value: "0x38d7ea4c68000",
+					metadata: { description: "Send 0.001 ETH to 0x2222…2222" },
+				},
+			],
+		});
+		expect(replies(dm.sent).at(-1)?.content).toBe("Here is your transaction");
+	});
+
+	test("welcomes a DM once and answers its first message", async () => {
+		const { xmtp, calls, handleMessage } = setup(
+			[{ content: "gm!" }],
+			createWelcome(),
+		);
+		const dm = xmtp.createDm();
+
+		await handleMessage(
+			xmtp.receive(dm, { senderInboxId: "alice", content: "gm" }),
+		);
+		await handleMessage(
+			xmtp.receive(dm, { senderInboxId: "alice", content: "gm again" }),
+		);
+
+		expect(calls).toHaveLength(2);
+		expect(replies(dm.sent).map(({ content }) => content)).toEqual([
+			"Welcome to the DM",
+			"gm!",
+			"gm!",
+		]);
+	});
+
+	test("only welcomes when forwarding the first message is off", async () => {
+		const { xmtp, calls, handleMessage } = setup(
+			undefined,
+			createWelcome(false),
+		);
+		const dm = xmtp.createDm();
+
+		await handleMessage(
+			xmtp.receive(dm, { senderInboxId: "alice", content: "gm" }),
+		);
+
+		expect(calls).toHaveLength(0);
+		expect(dm.sent.map(({ content }) => content)).toEqual([
+			"Welcome to the DM",
+		]);
+	});
+
+	test("does not welcome a group on messages for someone else", async () => {
+		const { xmtp, handleMessage } = setup(
+			[{ content: "Hi there" }],
+			createWelcome(),
+		);
+		const group = xmtp.createGroup();
+
+		const outcome = await handleMessage(
+			xmtp.receive(group, { senderInboxId: "alice", content: "gm all" }),
+		);
+		expect(outcome).toEqual({ status: "skipped", reason: "not_addressed" });
+		expect(group.sent).toHaveLength(0);
+
+		await handleMessage(
+			xmtp.receive(group, { senderInboxId: "alice", content: "@bitte gm" }),
+		);
+		expect(replies(group.sent)[0]?.content).toBe("Welcome to the group");
+	});
+
+	test("reports a settled transaction through the conversation queue", async () => {
+		const xmtp = createFakeXmtp({ addresses: { alice: [SENDER] } });
+		const { agent, calls } = createFakeAgent([{ content: "" }]);
+		// Settles once the report was queued
+		let onScheduled: (conversationId: string) => void = () => {};
+		const scheduled = new Promise<string>((resolve) => {
+			onScheduled = resolve;
+		});
+		let report: Promise<void> | undefined;
+		const handleMessage = createMessageHandler({
+			...createFakeHandlerDeps({ xmtp, agent }),
+			receipts: {
+				watch: async () => ({
+					status: "success",
+					blockNumber: 16n,
+					gasUsed: 21_000n,
+				}),
+			},
+			schedule: (conversationId, task) => {
+				report = task();
+				onScheduled(conversationId);
+				return report;
+			},
+		});
+		const dm = xmtp.createDm();
+
+		await handleMessage(
+			xmtp.receive(dm, {
+				senderInboxId: "alice",
+				contentType: ContentTypeTransactionReference,
+				content: { networkId: 8453, reference: `0x${"ab".repeat(32)}` },
+			}),
+		);
+
+		expect(await scheduled).toBe(dm.id);
+		await report;
+		expect(replies(dm.sent).at(-1)?.content).toStartWith(
+			"✅ Transaction 0xabababab...ababab on Base confirmed in block 16",
+		);
+		// the agent hears about the reference, then about the outcome
+		expect(calls).toHaveLength(2);
+		expect(calls[1]?.message).toContain("confirmed in block 16");
+	});
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createMessageLedger } from "@/helpers/message-ledger";
+
+const DAY = 86_400_000;
+const START = Date.parse("2026-10-19T12:00:00Z");
+const handled = { status: "handled" } as const;
+
+const directories: string[] = [];
+
+afterEach(() => {
+	for (const directory of directories.splice(0)) {
+		rmSync(directory, { recursive: true, force: true });
+	}
+});
+
+const ledgerPath = () => {
+	const directory = mkdtempSync(join(tmpdir(), "message-ledger-"));
+	directories.push(directory);
+	return join(directory, "message-ledger.json");
+};
+
+const setup = (
+	options: { retentionMs?: number; maxEntries?: number } = {},
+	filePath = ledgerPath(),
+) => {
+	let time = START;
+	const ledger = createMessageLedger({ filePath, ...options, now: () => time });
+	return {
+		ledger,
+		filePath,
+		advance: (ms: number) => {
+			time += ms;
+		},
+	};
+};
+
+const message = (id: string, conversationId = "c1", sentAt = START) => ({
+	id,
+	conversationId,
+	sentAt: new Date(sentAt),
+});
+
+describe("createMessageLedger", () => {
+	test("remembers handled messages and their outcome", () => {
+		const { ledger } = setup();
+		expect(ledger.has("m1")).toBe(false);
+
+		ledger.record(message("m1"), { status: "skipped", reason: "reaction" });
+
+		expect(ledger.has("m1")).toBe(true);
+		expect(ledger.get("m1")).toEqual({
+			outcome: { status: "skipped", reason: "reaction" },
+			handledAt: START,
+		});
+	});
+
+	test("treats messages in flight as seen until recorded", () => {
+		const { ledger } = setup();
+
+		ledger.begin("m1");
+
+		// a redelivery while the first delivery is still being handled
+		expect(ledger.has("m1")).toBe(true);
+		expect(ledger.get("m1")).toBeUndefined();
+		ledger.record(message("m1"), handled);
+		expect(ledger.get("m1")?.outcome).toEqual(handled);
+	});
+
+	test("tracks the latest processed message per conversation", () => {
+		const { ledger } = setup();
+		expect(ledger.lastProcessedAt()).toBeUndefined();
+
+		ledger.record(message("m1", "c1", START - 3_000), handled);
+		ledger.record(message("m2", "c2", START - 1_000), handled);
+		// handled late, but older than what c1 already processed
+		ledger.record(message("m0", "c1", START - 5_000), handled);
+
+		expect(ledger.lastProcessedAt("c1")).toBe(START - 3_000);
+		expect(ledger.lastProcessedAt("c2")).toBe(START - 1_000);
+		expect(ledger.lastProcessedAt("c3")).toBeUndefined();
+		expect(ledger.lastProcessedAt()).toBe(START - 1_000);
+	});
+
+	test("prunes entries older than the retention", () => {
+		const { ledger, advance } = setup({ retentionMs: 7 * DAY });
+		ledger.record(message("old"), handled);
+		advance(3 * DAY);
+		ledger.record(message("recent"), handled);
+
+		advance(4 * DAY + 1);
+
+		expect(ledger.prune()).toBe(1);
+		expect(ledger.has("old")).toBe(false);
+		expect(ledger.has("recent")).toBe(true);
+		// the conversation's position is kept for catch-up
+		expect(ledger.lastProcessedAt("c1")).toBe(START);
+	});
+
+	test("keeps only the newest entries beyond maxEntries", () => {
+		const { ledger, advance } = setup({ maxEntries: 2 });
+		for (const id of ["m1", "m2", "m3"]) {
+			ledger.record(message(id), handled);
+			advance(1_000);
+		}
+
+		expect(ledger.prune()).toBe(1);
+		expect(["m1", "m2", "m3"].map(ledger.has)).toEqual([false, true, true]);
+	});
+
+	test("keeps entries across restarts and prunes them on load", async () => {
+		const { ledger, filePath } = setup({ retentionMs: DAY });
+		ledger.record(message("m1"), handled);
+		await ledger.flush();
+
+		expect(setup({ retentionMs: DAY }, filePath).ledger.has("m1")).toBe(true);
+
+		const later = createMessageLedger({
+			filePath,
+			retentionMs: DAY,
+			now: () => START + 2 * DAY,
+		});
+		expect(later.has("m1")).toBe(false);
+		expect(later.lastProcessedAt("c1")).toBe(START);
+	});
+});
@@ -0,0 +1,205 @@
+import { describe, expect, test } from "bun:test";
+import {
+	filterUrls,
+	formatOutbound,
+	isUrlAllowed,
+	type OutboundFormatOptions,
+	splitMessage,
+	toPlainText,
+} from "@/helpers/outbound-format";
+
+const options: OutboundFormatOptions = {
+	urls: "allowlist",
+	allowedDomains: ["bitte.ai", "basescan.org"],
+	maxLength: 4000,
+	maxParts: 3,
+};
+
+const allowlisted = (url: string) => isUrlAllowed(url, options);
+
+describe("toPlainText", () => {
+	test("strips headers, emphasis, quotes and rules", () => {
+		expect(
+			toPlainText(
+				[
+					"## Your **portfolio**",
+					"> _Prices_ are ~~delayed~~ live",
+					"---",
+					"Total: *$1,234* in `3` tokens",
+					"snake_case_name stays",
+				].join("\n"),
+			),
+		).toBe(
+			[
+				"Your portfolio",
+				"Prices are delayed live",
+				"",
+				"Total: $1,234 in 3 tokens",
+				"snake_case_name stays",
+			].join("\n"),
+		);
+	});
+
+	test("turns list bullets into dashes and keeps numbered lists", () => {
+		expect(toPlainText("* ETH\n+ USDC\n  * nested\n1. first")).toBe(
+			"- ETH\n- USDC\n  - nested\n1. first",
+		);
+	});
+
+	test("keeps the code of code blocks without the fences", () => {
+		expect(
+			toPlainText(
+				"Run this:\n```bash\nbun export-usage --period 2026-10\n```\nThen **check**",
+			),
+		).toBe("Run this:\nbun export-usage --period 2026-10\nThen check");
+	});
+
+	test("turns links and images into their text and URL", () => {
+		expect(
+			toPlainText(
+				"See [the docs](https://docs.bitte.ai/agents) and ![chart](https://bitte.ai/chart.png)",
+			),
+		).toBe(
+			"See the docs (https://docs.bitte.ai/agents) and chart (https://bitte.ai/chart.png)",
+		);
+		expect(toPlainText("[https://bitte.ai](https://bitte.ai)")).toBe(
+			"https://bitte.ai",
+		);
+	});
+
+	test("keeps only the label of links the policy does not allow", () => {
+		expect(
+			toPlainText(
+				'[scam](https://evil.example) or <a href="https://basescan.org/tx/0x1">the tx</a>',
+				allowlisted,
+			),
+		).toBe("scam or the tx (https://basescan.org/tx/0x1)");
+	});
+
+	test("removes HTML tags and turns line breaks into newlines", () => {
+		expect(toPlainText("<p>gm<br/>ser</p>\n<b>bold</b>")).toBe("gm\nser\nbold");
+	});
+});
+
+describe("isUrlAllowed", () => {
+	test("allows listed domains and their subdomains only", () => {
+		expect(allowlisted("https://bitte.ai/chat")).toBe(true);
+		expect(allowlisted("https://docs.BITTE.ai")).toBe(true);
+		expect(allowlisted("https://notbitte.ai")).toBe(false);
+		expect(allowlisted("https://bitte.ai.evil.example")).toBe(false);
+		expect(allowlisted("not a url")).toBe(false);
+	});
+
+	test("keeps or strips everything under the other policies", () => {
+		expect(
+			isUrlAllowed("https://evil.example", {
+				urls: "keep",
+				allowedDomains: [],
+			}),
+		).toBe(true);
+		expect(
+			isUrlAllowed("https://bitte.ai", {
+				urls: "strip",
+				allowedDomains: ["bitte.ai"],
+			}),
+		).toBe(false);
+	});
+});
+
+describe("filterUrls", () => {
+	test("removes bare URLs outside the allowlist with their leading space", () => {
+		expect(
+			filterUrls(
+				"Swap on https://evil.example/swap, or see https://basescan.org/tx/0x1.",
+				allowlisted,
+			),
+		).toBe("Swap on, or see https://basescan.org/tx/0x1.");
+	});
+
+	test("cleans up what the removed URL leaves behind", () => {
+		expect(filterUrls("Details (https://evil.example) here", allowlisted)).toBe(
+			"Details here",
+		);
+		expect(filterUrls("call f() now", allowlisted)).toBe("call f() now");
+	});
+});
+
+describe("splitMessage", () => {
+	test("keeps text within the limit in one part", () => {
+		expect(splitMessage("  gm  ", 10, 3)).toEqual(["gm"]);
+		expect(splitMessage("a".repeat(10), 10, 3)).toEqual(["a".repeat(10)]);
+	});
+
+	test("breaks at paragraphs, then lines, sentences and words", () => {
+		expect(splitMessage("first part.\n\nsecond part.", 20, 3)).toEqual([
+			"first part.",
+			"second part.",
+		]);
+		expect(splitMessage("first line\nsecond line", 15, 3)).toEqual([
+			"first line",
+			"second line",
+		]);
+		expect(splitMessage("One sentence. Another one.", 20, 3)).toEqual([
+			"One sentence.",
+			"Another one.",
+		]);
+		expect(splitMessage("alpha beta gamma delta", 12, 3)).toEqual([
+			"alpha beta",
+			"gamma delta",
+		]);
+	});
+
+	test("cuts words longer than the limit", () => {
+		const hash = `0x${"ab".repeat(32)}`;
+
+		const parts = splitMessage(`tx ${hash}`, 30, 5);
+
+		expect(parts.every((part) => part.length <= 30)).toBe(true);
+		expect(parts.join("").replace(" ", "")).toBe(`tx${hash}`);
+	});
+
+	test("marks the last part as truncated", () => {
+		const parts = splitMessage("one two three four five six", 10, 2);
+
+		expect(parts).toEqual(["one two", "three…"]);
+	});
+
+	test("does not cut multi-byte characters in half", () => {
+		const text = "🚀".repeat(12);
+
+		const parts = splitMessage(text, 9, 5);
+
+		expect(parts.every((part) => part.length <= 9)).toBe(true);
+		expect(parts.join("")).toBe(text);
+		for (const part of parts) {
+			expect(part).toBe(part.toWellFormed());
+		}
+	});
+
+	test("keeps accented text and emoji at the limit intact", () => {
+		const text = `${"é".repeat(8)} ${"日本語".repeat(3)} 🎉🎉`;
+
+		const parts = splitMessage(text, 10, 5);
+
+		expect(parts.every((part) => part.length <= 10)).toBe(true);
+		expect(parts.join(" ")).toBe(text);
+	});
+});
+
+describe("formatOutbound", () => {
+	test("formats, filters and splits an answer", () => {
+		expect(
+			formatOutbound(
+				"**Done!** See [the tx](https://basescan.org/tx/0x1) or https://evil.example\n\n## Next\nBridge to Base.",
+				{ ...options, maxLength: 50 },
+			),
+		).toEqual([
+			"Done! See the tx (https://basescan.org/tx/0x1) or",
+			"Next\nBridge to Base.",
+		]);
+	});
+
+	test("sends at least one part", () => {
+		expect(formatOutbound("gm", { ...options, maxParts: 0 })).toEqual(["gm"]);
+	});
+});
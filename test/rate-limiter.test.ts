@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { parseRateLimit } from "@/helpers/rate-limiter";
+
+const fallback = { limit: 10, windowMs: 60_000 };
+
+describe("parseRateLimit", () => {
+	test("reads <messages>/<seconds>", () => {
+		expect(parseRateLimit("5/30", fallback)).toEqual({
+			limit: 5,
+			windowMs: 30_000,
+		});
+	});
+
+	test("turns the limit off", () => {
+		expect(parseRateLimit("off", fallback)).toBeUndefined();
+		expect(parseRateLimit("0", fallback)).toBeUndefined();
+	});
+
+	test("falls back on missing or invalid values", () => {
+		for (const value of [undefined, "", "abc", "5", "-1/60", "5/-60", "5/0"]) {
+			expect(parseRateLimit(value, fallback)).toBe(fallback);
+		}
+	});
+
+	test("falls back on message counts that are not whole", () => {
+		expect(parseRateLimit("0.5/60", fallback)).toBe(fallback);
+		expect(parseRateLimit("1.5/60", fallback)).toBe(fallback);
+	});
+});
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { encodeErrorResult, parseAbi } from "viem";
+import { createReceiptWatcher } from "@/helpers/receipt-watcher";
+import { createFakeRpc } from "@/test/fake-rpc";
+
+const HASH = `0x${"ab".repeat(32)}` as const;
+const BLOCK_HASH = `0x${"cd".repeat(32)}`;
+const FROM = "0x1111111111111111111111111111111111111111";
+const TO = "0x2222222222222222222222222222222222222222";
+
+const receipt = (status: "0x1" | "0x0") => ({
+	transactionHash: HASH,
+	transactionIndex: "0x0",
+	blockHash: BLOCK_HASH,
+	blockNumber: "0x10",
+	from: FROM,
+	to: TO,
+	status,
+	gasUsed: "0x5208",
+	cumulativeGasUsed: "0x5208",
+	effectiveGasPrice: "0x1",
+	contractAddress: null,
+	logs: [],
+	logsBloom: `0x${"00".repeat(256)}`,
+	type: "0x0",
+});
+
+const transaction = {
+	hash: HASH,
+	blockHash: BLOCK_HASH,
+	blockNumber: "0x10",
+	transactionIndex: "0x0",
+	from: FROM,
+	to: TO,
+	input: "0x",
+	value: "0x0",
+	gas: "0x5208",
+	gasPrice: "0x1",
+	nonce: "0x0",
+	type: "0x0",
+	chainId: "0x2105",
+};
+
+const rpcs: Awaited<ReturnType<typeof createFakeRpc>>[] = [];
+
+const setup = async (
+	handlers: Parameters<typeof createFakeRpc>[0],
+	options: { timeoutMs?: number; confirmations?: number } = {},
+) => {
+	const rpc = await createFakeRpc(handlers);
+	rpcs.push(rpc);
+	const watcher = createReceiptWatcher({
+		pollIntervalMs: 10,
+		timeoutMs: options.timeoutMs ?? 5_000,
+		confirmations: options.confirmations,
+		getClient: () => rpc.client,
+	});
+	return { rpc, watcher };
+};
+
+afterEach(() => {
+	for (const rpc of rpcs.splice(0)) rpc.stop();
+});
+
+describe("createReceiptWatcher", () => {
+	test("reports a confirmed transaction once it has enough blocks", async () => {
+		let lookups = 0;
+		let blockNumber = 0x10;
+		const { watcher } = await setup(
+			{
+				// not mined on the first lookup
+				eth_getTransactionReceipt: () =>
+					++lookups === 1 ? null : receipt("0x1"),
+				eth_blockNumber: () => `0x${(blockNumber++).toString(16)}`,
+			},
+			{ confirmations: 2 },
+		);
+
+		const outcome = await watcher.watch({ chainId: 8453, hash: HASH });
+
+		expect(outcome).toEqual({
+			status: "success",
+			blockNumber: 16n,
+			gasUsed: 21_000n,
+		});
+		expect(lookups).toBe(3);
+	});
+
+	test("reports a reverted transaction with its revert reason", async () => {
+		const { rpc, watcher } = await setup({
+			eth_getTransactionReceipt: () => receipt("0x0"),
+			eth_getTransactionByHash: () => transaction,
+			eth_call: () => {
+				throw {
+					code: 3,
+					message: "execution reverted: Insufficient balance",
+					data: encodeErrorResult({
+						abi: parseAbi(["error Error(string)"]),
+						errorName: "Error",
+						args: ["Insufficient balance"],
+					}),
+				};
+			},
+		});
+
+		const outcome = await watcher.watch({ chainId: 8453, hash: HASH });
+
+		expect(outcome).toEqual({
+			status: "reverted",
+			blockNumber: 16n,
+			gasUsed: 21_000n,
+			reason: "Insufficient balance",
+		});
+		// replayed at the block the transaction was mined in
+		const call = rpc.requests.find(({ method }) => method === "eth_call");
+		expect(call?.params[1]).toBe("0x10");
+	});
+
+	test("times out when the transaction is never mined", async () => {
+		const { rpc, watcher } = await setup(
+			{ eth_getTransactionReceipt: () => null },
+			{ timeoutMs: 50 },
+		);
+
+		const outcome = await watcher.watch({ chainId: 8453, hash: HASH });
+
+		expect(outcome).toEqual({ status: "timeout" });
+		expect(rpc.requests.length).toBeGreaterThan(1);
+	});
+
+	test("ends pending watches when stopped", async () => {
+		const { watcher } = await setup({ eth_getTransactionReceipt: () => null });
+
+		const watching = watcher.watch({ chainId: 8453, hash: HASH });
+		setTimeout(watcher.stop, 30);
+
+		expect(await watching).toEqual({ status: "stopped" });
+	});
+
+	test("does not watch chains without an RPC", async () => {
+		const watcher = createReceiptWatcher({
+			pollIntervalMs: 10,
+			timeoutMs: 50,
+			getClient: () => undefined,
+		});
+
+		expect(await watcher.watch({ chainId: 999_999, hash: HASH })).toEqual({
+			status: "unsupported_chain",
+		});
+	});
+});
@@ -0,0 +1,3 @@
+import { configureLogger } from "@/helpers/logger";
+
+configureLogger({ level: "error" });
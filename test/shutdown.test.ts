@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { constants } from "node:os";
+import { createGracefulShutdown, EXIT_CODES } from "@/helpers/shutdown";
+
+// Not sent by the platform or the test runner
+const SIGNAL = "SIGUSR2";
+
+const listenersBefore = process.listeners(SIGNAL);
+
+afterEach(() => {
+	for (const listener of process.listeners(SIGNAL)) {
+		if (!listenersBefore.includes(listener)) {
+			process.removeListener(SIGNAL, listener);
+		}
+	}
+});
+
+const setup = ({
+	drain = async () => {},
+	close = async () => {},
+	drainTimeoutMs = 1_000,
+}: {
+	drain?: () => Promise<void>;
+	close?: () => Promise<void>;
+	drainTimeoutMs?: number;
+} = {}) => {
+	const steps: string[] = [];
+	const exitCodes: number[] = [];
+	const shutdown = createGracefulShutdown({
+		stopIntake: () => {
+			steps.push("stop intake");
+		},
+		drain: async () => {
+			steps.push("drain");
+			await drain();
+			steps.push("drained");
+		},
+		close: async () => {
+			steps.push("close");
+			await close();
+		},
+		drainTimeoutMs,
+		exit: (code) => {
+			exitCodes.push(code);
+		},
+	});
+	return { shutdown, steps, exitCodes };
+};
+
+const never = () => new Promise<void>(() => {});
+
+describe("createGracefulShutdown", () => {
+	test("stops intake, waits for in-flight work, then closes", async () => {
+		const { shutdown, steps, exitCodes } = setup({
+			drain: () => new Promise((resolve) => setTimeout(resolve, 20)),
+		});
+
+		const done = shutdown.shutdown("SIGTERM", EXIT_CODES.ok);
+		expect(shutdown.isShuttingDown()).toBe(true);
+		await done;
+
+		expect(steps).toEqual(["stop intake", "drain", "drained", "close"]);
+		expect(exitCodes).toEqual([EXIT_CODES.ok]);
+	});
+
+	test("closes anyway when the drain times out", async () => {
+		const { shutdown, steps, exitCodes } = setup({
+			drain: never,
+			drainTimeoutMs: 20,
+		});
+
+		await shutdown.shutdown("SIGTERM", EXIT_CODES.ok);
+
+		expect(steps).toEqual(["stop intake", "drain", "close"]);
+		expect(exitCodes).toEqual([EXIT_CODES.drainTimeout]);
+	});
+
+	test("keeps the exit code of a failure over the drain timeout", async () => {
+		const { shutdown, exitCodes } = setup({ drain: never, drainTimeoutMs: 20 });
+
+		await shutdown.shutdown("stream gave up", EXIT_CODES.streamFailed);
+
+		expect(exitCodes).toEqual([EXIT_CODES.streamFailed]);
+	});
+
+	test("exits even when closing fails", async () => {
+		const { shutdown, exitCodes } = setup({
+			close: async () => {
+				throw new Error("flush failed");
+			},
+		});
+
+		await shutdown.shutdown("SIGTERM", EXIT_CODES.ok);
+
+		expect(exitCodes).toEqual([EXIT_CODES.ok]);
+	});
+
+	test("shuts down once however often it is asked", async () => {
+		const { shutdown, steps, exitCodes } = setup();
+
+		await Promise.all([
+			shutdown.shutdown("SIGTERM", EXIT_CODES.ok),
+			shutdown.shutdown("stream gave up", EXIT_CODES.streamFailed),
+		]);
+
+		expect(steps.filter((step) => step === "close")).toHaveLength(1);
+		expect(exitCodes).toEqual([EXIT_CODES.ok]);
+	});
+
+	test("drains on a signal and exits right away on a second one", async () => {
+		let finishDrain = () => {};
+		const { shutdown, steps, exitCodes } = setup({
+			drain: () =>
+				new Promise((resolve) => {
+					finishDrain = resolve;
+				}),
+		});
+		shutdown.handleSignals([SIGNAL]);
+
+		process.emit(SIGNAL, SIGNAL);
+		expect(shutdown.isShuttingDown()).toBe(true);
+		expect(exitCodes).toEqual([]);
+
+		process.emit(SIGNAL, SIGNAL);
+		expect(exitCodes).toEqual([128 + constants.signals[SIGNAL]]);
+
+		// the first shutdown still finishes its work
+		finishDrain();
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(steps).toEqual(["stop intake", "drain", "drained", "close"]);
+	});
+});
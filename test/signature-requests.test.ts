@@ -0,0 +1,281 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type Hex, keccak256, stringToHex, toHex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+	createSignatureRequests,
+	describeSignRequest,
+	findSignature,
+	type SignatureMethod,
+	verifySignRequest,
+} from "@/helpers/signature-requests";
+import type { SignRequestData } from "@/server";
+import { createFakeRpc } from "@/test/fake-rpc";
+
+// Well-known Anvil test accounts
+const signer = privateKeyToAccount(
+	"0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+);
+const other = privateKeyToAccount(
+	"0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+
+type SignatureRequest = SignRequestData & { method: SignatureMethod };
+
+const typedData = {
+	domain: {
+		name: "Permit2",
+		version: "1",
+		chainId: 8453,
+		verifyingContract: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+	},
+	types: {
+		Permit: [
+			{ name: "spender", type: "address" },
+			{ name: "value", type: "uint256" },
+		],
+	},
+	primaryType: "Permit",
+	message: {
+		spender: "0x2222222222222222222222222222222222222222",
+		value: "1000000",
+	},
+} as const;
+
+const personalSign = (message: Hex, address = signer.address) =>
+	({
+		method: "personal_sign",
+		chainId: 8453,
+		params: [message, address],
+	}) satisfies SignatureRequest;
+
+const signTypedData = (address = signer.address) =>
+	({
+		method: "eth_signTypedData_v4",
+		chainId: 8453,
+		params: [address, JSON.stringify(typedData)],
+	}) satisfies SignatureRequest;
+
+const HASH = keccak256(stringToHex("order #1"));
+const ethSign = (address = signer.address) =>
+	({
+		method: "eth_sign",
+		chainId: 8453,
+		params: [address, HASH],
+	}) satisfies SignatureRequest;
+
+// Plain ECDSA recovery, as for chains viem doesn't know
+const offline = () => undefined;
+
+describe("findSignature", () => {
+	test("finds a signature in a reply", async () => {
+		const signature = await signer.signMessage({ message: "gm" });
+
+		expect(findSignature(`@bitte here you go: ${signature} thanks`)).toBe(
+			signature,
+		);
+	});
+
+	test("finds smart wallet signatures longer than 65 bytes", () => {
+		const signature = `0x${"ab".repeat(200)}`;
+
+		expect(findSignature(signature)).toBe(signature as Hex);
+	});
+
+	test("ignores hashes, addresses and partial signatures", () => {
+		expect(findSignature(`tx ${HASH}`)).toBeUndefined();
+		expect(findSignature(signer.address)).toBeUndefined();
+		expect(findSignature(`0x${"ab".repeat(64)}`)).toBeUndefined();
+	});
+});
+
+describe("describeSignRequest", () => {
+	test("shows the text of a personal_sign message", () => {
+		expect(
+			describeSignRequest(
+				personalSign(stringToHex("Sign in to Bitte\nNonce: 1")),
+			),
+		).toBe(
+			[
+				"✍️ Signature request on Base",
+				`Signer: ${signer.address}`,
+				"",
+				"Message:",
+				"Sign in to Bitte",
+				"Nonce: 1",
+				"",
+				"Sign it in your wallet and reply to this message with the signature (0x…).",
+			].join("\n"),
+		);
+	});
+
+	test("shows binary personal_sign messages as hex", () => {
+		const message = toHex(new Uint8Array([0, 1, 2, 255]));
+
+		expect(describeSignRequest(personalSign(message))).toContain(
+			`Message:\n${message}`,
+		);
+	});
+
+	test("warns about raw hashes", () => {
+		const prompt = describeSignRequest(ethSign());
+
+		expect(prompt).toContain(`Hash: ${HASH}`);
+		expect(prompt).toContain("⚠️ eth_sign signs a raw hash");
+	});
+
+	test("lists the domain and fields of typed data", () => {
+		expect(describeSignRequest(signTypedData())).toContain(
+			[
+				"Domain: Permit2 v1 (chain 8453)",
+				"Contract: 0x000000000022D473030F116dDEE9F6B43aC78BA3",
+				"Type: Permit",
+				"- spender: 0x2222222222222222222222222222222222222222",
+				"- value: 1000000",
+			].join("\n"),
+		);
+	});
+
+	test("names chains viem doesn't know by their ID", () => {
+		expect(
+			describeSignRequest({
+				...personalSign(stringToHex("gm")),
+				chainId: 999_999,
+			}),
+		).toStartWith("✍️ Signature request on chain 999999");
+	});
+});
+
+describe("verifySignRequest", () => {
+	test("accepts the signer's personal_sign signature", async () => {
+		const message = stringToHex("Sign in to Bitte");
+		const signature = await signer.signMessage({ message: { raw: message } });
+
+		expect(
+			await verifySignRequest(personalSign(message), signature, offline),
+		).toBe(true);
+	});
+
+	test("accepts the signer's typed data signature", async () => {
+		const signature = await signer.signTypedData(typedData);
+
+		expect(await verifySignRequest(signTypedData(), signature, offline)).toBe(
+			true,
+		);
+	});
+
+	test("accepts the signer's signature of a hash", async () => {
+		const signature = await signer.sign({ hash: HASH });
+
+		expect(await verifySignRequest(ethSign(), signature, offline)).toBe(true);
+	});
+
+	test("rejects signatures of another signer", async () => {
+		const message = stringToHex("Sign in to Bitte");
+
+		expect(
+			await verifySignRequest(
+				personalSign(message),
+				await other.signMessage({ message: { raw: message } }),
+				offline,
+			),
+		).toBe(false);
+		expect(
+			await verifySignRequest(
+				signTypedData(),
+				await other.signTypedData(typedData),
+				offline,
+			),
+		).toBe(false);
+		expect(
+			await verifySignRequest(
+				ethSign(),
+				await other.sign({ hash: HASH }),
+				offline,
+			),
+		).toBe(false);
+	});
+
+	test("rejects a signature of another message", async () => {
+		const signature = await signer.signMessage({ message: "something else" });
+
+		expect(
+			await verifySignRequest(
+				personalSign(stringToHex("Sign in to Bitte")),
+				signature,
+				offline,
+			),
+		).toBe(false);
+	});
+
+	test("asks the chain about smart wallet signatures", async () => {
+		const rpc = await createFakeRpc({
+			// the signature validator says it is valid
+			eth_call: () => `0x${"0".repeat(63)}1`,
+		});
+		const smartWallet = "0x3333333333333333333333333333333333333333";
+
+		try {
+			expect(
+				await verifySignRequest(
+					personalSign(stringToHex("gm"), smartWallet),
+					`0x${"ab".repeat(200)}`,
+					() => rpc.client,
+				),
+			).toBe(true);
+			expect(rpc.requests.map(({ method }) => method)).toContain("eth_call");
+		} finally {
+			rpc.stop();
+		}
+	});
+});
+
+describe("createSignatureRequests", () => {
+	const directories: string[] = [];
+
+	afterEach(() => {
+		for (const directory of directories.splice(0)) {
+			rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	const setup = () => {
+		const directory = mkdtempSync(join(tmpdir(), "signature-requests-"));
+		directories.push(directory);
+		let time = 0;
+		const requests = createSignatureRequests({
+			filePath: join(directory, "signature-requests.json"),
+			ttlMs: 60_000,
+			now: () => time,
+		});
+		return {
+			requests,
+			advance: (ms: number) => {
+				time += ms;
+			},
+		};
+	};
+
+	test("keeps one request per sender until it expires", () => {
+		const { requests, advance } = setup();
+		requests.add("c1:alice", personalSign(stringToHex("first")));
+		requests.add("c1:alice", ethSign());
+
+		advance(60_000);
+		expect(requests.get("c1:alice")?.request).toEqual(ethSign());
+
+		advance(1);
+		expect(requests.get("c1:alice")).toBeUndefined();
+	});
+
+	test("forgets removed requests", () => {
+		const { requests } = setup();
+		requests.add("c1:alice", ethSign());
+
+		requests.remove("c1:alice");
+
+		expect(requests.get("c1:alice")).toBeUndefined();
+	});
+});
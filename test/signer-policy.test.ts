@@ -0,0 +1,172 @@
+import { describe, expect, test } from "bun:test";
+import { ContentTypeWalletSendCalls } from "@xmtp/content-type-wallet-send-calls";
+import {
+	type CompletionResponse,
+	createMessageHandler,
+} from "@/helpers/message-handler";
+import {
+	checkSigner,
+	describeSignerMismatch,
+	type SignerPolicy,
+} from "@/helpers/signer-policy";
+import {
+	createFakeAgent,
+	createFakeHandlerDeps,
+	createFakeXmtp,
+} from "@/test/fake-xmtp";
+
+const EOA = "0x1111111111111111111111111111111111111111";
+const SMART_WALLET = "0x2222222222222222222222222222222222222222";
+const STRANGER = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "0x4444444444444444444444444444444444444444";
+
+describe("checkSigner", () => {
+	test.each([
+		["the only linked address", EOA, [EOA]],
+		["any of several linked addresses", SMART_WALLET, [EOA, SMART_WALLET]],
+		[
+			"an address in another case",
+			EOA.toUpperCase().replace("0X", "0x"),
+			[EOA],
+		],
+	] as const)("accepts %s", (_, requested, linked) => {
+		for (const policy of ["reject", "warn", "rewrite"] as const) {
+			expect(checkSigner(requested, [...linked], policy)).toEqual({
+				status: "linked",
+				address: requested,
+			});
+		}
+	});
+
+	test.each([
+		["reject", [EOA, SMART_WALLET], "reject"],
+		["warn", [EOA, SMART_WALLET], "warn"],
+		["rewrite", [EOA, SMART_WALLET], "rewrite"],
+		["reject", [], "reject"],
+		["warn", [], "warn"],
+		// nothing to rewrite to
+		["rewrite", [], "reject"],
+	] as const)(
+		"applies %s to other signers with %p linked",
+		(policy, linked, action) => {
+			expect(checkSigner(STRANGER, [...linked], policy)).toEqual({
+				status: "mismatch",
+				requested: STRANGER,
+				action,
+			});
+		},
+	);
+});
+
+describe("describeSignerMismatch", () => {
+	const mismatch = (action: SignerPolicy) =>
+		({ status: "mismatch", requested: STRANGER, action }) as const;
+
+	test("explains each action", () => {
+		expect(
+			describeSignerMismatch(mismatch("reject"), [EOA], "transaction"),
+		).toBe(
+			"⚠️ This transaction is for 0x3333…3333, which isn't linked to your XMTP inbox (linked: 0x1111…1111). I didn't send it.",
+		);
+		expect(
+			describeSignerMismatch(
+				mismatch("warn"),
+				[EOA, SMART_WALLET],
+				"signature request",
+			),
+		).toBe(
+			"⚠️ This signature request is for 0x3333…3333, which isn't linked to your XMTP inbox (linked: 0x1111…1111, 0x2222…2222). Only sign it if you control that wallet.",
+		);
+		expect(
+			describeSignerMismatch(mismatch("rewrite"), [EOA], "transaction"),
+		).toBe(
+			"⚠️ This transaction is for 0x3333…3333, which isn't linked to your XMTP inbox (linked: 0x1111…1111). I prepared it for 0x1111…1111 instead, check the details before signing.",
+		);
+	});
+
+	test("says when the inbox has no wallet", () => {
+		expect(
+			describeSignerMismatch(mismatch("reject"), [], "transaction"),
+		).toContain("(linked: none, this inbox has no linked wallet)");
+	});
+});
+
+describe("signer checks on agent requests", () => {
+	const transactionFrom = (from: string): CompletionResponse => ({
+		content: "Here is your transaction",
+		toolCalls: [
+			{
+				toolCallId: "call-1",
+				toolName: "generate-evm-tx",
+				args: {},
+				result: {
+					data: {
+						evmSignRequest: {
+							method: "eth_sendTransaction",
+							chainId: 8453,
+							params: [{ from, to: RECIPIENT, value: "0x1", data: "0x" }],
+						},
+					},
+				},
+			},
+		],
+	});
+
+	// What reached the conversation for a transaction from `from`
+	const send = async (
+		from: string,
+		senderAddresses: string[],
+		signerPolicy?: SignerPolicy,
+	) => {
+		const xmtp = createFakeXmtp({ addresses: { alice: senderAddresses } });
+		const { agent } = createFakeAgent([transactionFrom(from)]);
+		const handleMessage = createMessageHandler({
+			...createFakeHandlerDeps({ xmtp, agent }),
+			...(signerPolicy ? { signerPolicy } : {}),
+		});
+		const dm = xmtp.createDm();
+
+		await handleMessage(
+			xmtp.receive(dm, { senderInboxId: "alice", content: "send 1 wei" }),
+		);
+
+		const walletSendCalls = dm.sent.find(({ contentType }) =>
+			contentType?.sameAs(ContentTypeWalletSendCalls),
+		)?.content as { from: string } | undefined;
+		const notices = dm.sent
+			.map(({ content }) => content)
+			.filter(
+				(content): content is string =>
+					typeof content === "string" && content.startsWith("⚠️"),
+			);
+		return { from: walletSendCalls?.from, notices };
+	};
+
+	test("sends requests for any linked address unchanged", async () => {
+		expect(await send(SMART_WALLET, [EOA, SMART_WALLET], "reject")).toEqual({
+			from: SMART_WALLET,
+			notices: [],
+		});
+	});
+
+	test("rewrites to the sender's first address when no policy is set", async () => {
+		const { from, notices } = await send(STRANGER, [EOA, SMART_WALLET]);
+
+		expect(from).toBe(EOA);
+		expect(notices[0]).toContain("I prepared it for 0x1111…1111 instead");
+	});
+
+	test("blocks other signers under reject", async () => {
+		const { from, notices } = await send(STRANGER, [EOA], "reject");
+
+		expect(from).toBeUndefined();
+		expect(notices[0]).toContain("I didn't send it.");
+	});
+
+	test("sends for other signers with a warning under warn", async () => {
+		const { from, notices } = await send(STRANGER, [EOA], "warn");
+
+		expect(from).toBe(STRANGER);
+		expect(notices[0]).toContain("Only sign it if you control that wallet.");
+	});
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	createStreamSupervisor,
+	getBackoffDelayMs,
+	type StreamSession,
+	type StreamSupervisor,
+} from "@/helpers/stream-supervisor";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const supervisors: StreamSupervisor[] = [];
+
+afterEach(() => {
+	for (const supervisor of supervisors.splice(0)) supervisor.stop();
+});
+
+// A supervisor whose sessions are scripted by `run`, with millisecond delays
+const setup = (
+	run: (session: StreamSession) => Promise<void>,
+	options: { maxRetries?: number; stableAfterMs?: number } = {},
+) => {
+	const sessions: StreamSession[] = [];
+	let gaveUp = 0;
+	const supervisor = createStreamSupervisor({
+		run: (session) => {
+			sessions.push(session);
+			return run(session);
+		},
+		maxRetries: options.maxRetries ?? 3,
+		baseDelayMs: 1,
+		maxDelayMs: 4,
+		stableAfterMs: options.stableAfterMs ?? 60_000,
+		onGiveUp: () => {
+			gaveUp++;
+		},
+	});
+	supervisors.push(supervisor);
+	return { supervisor, sessions, gaveUp: () => gaveUp };
+};
+
+describe("getBackoffDelayMs", () => {
+	test("doubles the ceiling per failure up to the cap", () => {
+		const ceiling = (failures: number) =>
+			getBackoffDelayMs(failures, 1_000, 30_000, () => 1);
+
+		expect([1, 2, 3, 4, 5, 6, 7].map(ceiling)).toEqual([
+			1_000, 2_000, 4_000, 8_000, 16_000, 30_000, 30_000,
+		]);
+	});
+
+	test("picks a random delay below the ceiling", () => {
+		expect(getBackoffDelayMs(3, 1_000, 30_000, () => 0)).toBe(0);
+		expect(getBackoffDelayMs(3, 1_000, 30_000, () => 0.25)).toBe(1_000);
+	});
+});
+
+describe("createStreamSupervisor", () => {
+	test("restarts a stream that ends or fails", async () => {
+		let runs = 0;
+		const { supervisor, sessions } = setup(async () => {
+			runs++;
+			if (runs === 1) return;
+			if (runs === 2) throw new Error("connection reset");
+			await new Promise(() => {});
+		});
+
+		supervisor.start();
+		await sleep(50);
+
+		expect(
+			sessions.map(({ attempt, isReconnect }) => [attempt, isReconnect]),
+		).toEqual([
+			[1, false],
+			[2, true],
+			[3, true],
+		]);
+		expect(supervisor.status()).toMatchObject({
+			running: true,
+			consecutiveFailures: 2,
+			retriesLeft: 1,
+		});
+	});
+
+	test("restarts once however often a session reports failure", async () => {
+		const { supervisor, sessions } = setup(async (session) => {
+			if (session.attempt > 1) return new Promise(() => {});
+			session.fail(new Error("onFail"));
+			session.fail(new Error("onFail again"));
+			// the stream ending afterwards is the same failure
+		});
+
+		supervisor.start();
+		await sleep(50);
+
+		expect(sessions).toHaveLength(2);
+		expect(supervisor.status().consecutiveFailures).toBe(1);
+	});
+
+	test("gives up after maxRetries failures in a row", async () => {
+		const { supervisor, sessions, gaveUp } = setup(
+			async () => {
+				throw new Error("unauthorized");
+			},
+			{ maxRetries: 2 },
+		);
+
+		supervisor.start();
+		await sleep(50);
+
+		// the first session plus two retries
+		expect(sessions).toHaveLength(3);
+		expect(gaveUp()).toBe(1);
+		expect(supervisor.status()).toMatchObject({
+			running: false,
+			retriesLeft: 0,
+		});
+	});
+
+	test("forgives failures after a stable session", async () => {
+		const { supervisor, sessions, gaveUp } = setup(
+			async (session) => {
+				// every other session stays up long enough to count as stable
+				if (session.attempt % 2 === 0) await sleep(25);
+				throw new Error("connection reset");
+			},
+			// without forgiveness the third session would be one failure too many
+			{ maxRetries: 2, stableAfterMs: 20 },
+		);
+
+		supervisor.start();
+		await sleep(120);
+		supervisor.stop();
+
+		expect(sessions.length).toBeGreaterThanOrEqual(5);
+		expect(gaveUp()).toBe(0);
+	});
+
+	test("does not restart once stopped", async () => {
+		const { supervisor, sessions } = setup(async () => {
+			await sleep(5);
+		});
+
+		supervisor.start();
+		supervisor.stop();
+		await sleep(30);
+
+		expect(sessions).toHaveLength(1);
+		expect(supervisor.status().running).toBe(false);
+	});
+});
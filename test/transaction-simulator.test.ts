@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { WalletSendCallsParams } from "@xmtp/content-type-wallet-send-calls";
+import { encodeErrorResult, parseAbi } from "viem";
+import { simulateWalletSendCalls } from "@/helpers/transaction-simulator";
+import { createFakeRpc } from "@/test/fake-rpc";
+
+const FROM = "0x1111111111111111111111111111111111111111";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const ROUTER = "0x4444444444444444444444444444444444444444";
+
+// Approve the router, then swap through it
+const params: WalletSendCallsParams = {
+	version: "1.0",
+	chainId: "0x2105",
+	from: FROM,
+	calls: [
+		{ to: TOKEN, data: "0x095ea7b3" },
+		{ to: ROUTER, data: "0x38ed1739" },
+	],
+};
+
+const revertData = (reason: string) =>
+	encodeErrorResult({
+		abi: parseAbi(["error Error(string)"]),
+		errorName: "Error",
+		args: [reason],
+	});
+
+const simulatedCall = (gasUsed: number, error?: string) => ({
+	status: error ? "0x0" : "0x1",
+	gasUsed: `0x${gasUsed.toString(16)}`,
+	returnData: "0x",
+	logs: [],
+	...(error
+		? {
+				error: {
+					code: 3,
+					message: "execution reverted",
+					data: revertData(error),
+				},
+			}
+		: {}),
+});
+
+// eth_simulateV1 answering with the given calls, plus the empty call viem adds
+const simulateV1 =
+	(...calls: ReturnType<typeof simulatedCall>[]) =>
+	() => [
+		{
+			number: "0x10",
+			hash: `0x${"cd".repeat(32)}`,
+			timestamp: "0x1",
+			gasLimit: "0x1c9c380",
+			gasUsed: "0x0",
+			baseFeePerGas: "0x0",
+			transactions: [],
+			calls: [...calls, simulatedCall(21_000)],
+		},
+	];
+
+const rpcs: Awaited<ReturnType<typeof createFakeRpc>>[] = [];
+
+const setup = async (handlers: Parameters<typeof createFakeRpc>[0]) => {
+	const rpc = await createFakeRpc(handlers);
+	rpcs.push(rpc);
+	return rpc;
+};
+
+afterEach(() => {
+	for (const rpc of rpcs.splice(0)) rpc.stop();
+});
+
+describe("simulateWalletSendCalls", () => {
+	test("simulates the batch on chained state in one request", async () => {
+		const rpc = await setup({
+			eth_simulateV1: simulateV1(simulatedCall(46_000), simulatedCall(120_000)),
+		});
+
+		const result = await simulateWalletSendCalls(params, () => rpc.client);
+
+		expect(result).toEqual({ status: "ok", gas: [46_000n, 120_000n] });
+		expect(rpc.requests.map(({ method }) => method)).toEqual([
+			"eth_simulateV1",
+		]);
+		const [{ blockStateCalls }] = rpc.requests[0]?.params as [
+			{ blockStateCalls: { calls: { from: string; to: string }[] }[] },
+		];
+		expect(blockStateCalls).toHaveLength(1);
+		expect(blockStateCalls[0]?.calls.slice(0, 2)).toMatchObject([
+			{ from: FROM, to: TOKEN },
+			{ from: FROM, to: ROUTER },
+		]);
+	});
+
+	test("fails when a later call in the batch reverts", async () => {
+		const rpc = await setup({
+			eth_simulateV1: simulateV1(
+				simulatedCall(46_000),
+				simulatedCall(30_000, "Too little received"),
+			),
+		});
+
+		expect(await simulateWalletSendCalls(params, () => rpc.client)).toEqual({
+			status: "failed",
+			callIndex: 1,
+			reason: "Too little received",
+		});
+	});
+
+	test("falls back to one call at a time without eth_simulateV1", async () => {
+		const rpc = await setup({
+			eth_call: () => "0x",
+			eth_estimateGas: () => "0xb3b0",
+		});
+
+		const result = await simulateWalletSendCalls(params, () => rpc.client);
+
+		expect(result).toEqual({ status: "ok", gas: [46_000n, 46_000n] });
+		expect(rpc.requests[0]?.method).toBe("eth_simulateV1");
+	});
+
+	test("fails on a reverting first call without eth_simulateV1", async () => {
+		const rpc = await setup({
+			eth_call: () => {
+				throw {
+					code: 3,
+					message: "execution reverted",
+					data: revertData("Insufficient balance"),
+				};
+			},
+		});
+
+		expect(await simulateWalletSendCalls(params, () => rpc.client)).toEqual({
+			status: "failed",
+			callIndex: 0,
+			reason: "Insufficient balance",
+		});
+	});
+
+	test("is unavailable when the RPC can't be reached", async () => {
+		const rpc = await setup({});
+		rpc.stop();
+
+		const result = await simulateWalletSendCalls(params, () => rpc.client);
+
+		expect(result.status).toBe("unavailable");
+	});
+});
@@ -0,0 +1,328 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createUsageTracker } from "@/helpers/usage-tracker";
+
+const ALICE = { senderAddress: "0xAlice", conversationId: "dm-1" };
+const BOB = { senderAddress: "0xBob", conversationId: "group-1" };
+const DAY = 86_400_000;
+const START = Date.parse("2026-10-19T12:00:00Z");
+
+const directories: string[] = [];
+
+const dataDirectory = () => {
+	const directory = mkdtempSync(join(tmpdir(), "token-usage-"));
+	directories.push(directory);
+	return directory;
+};
+
+afterEach(() => {
+	for (const directory of directories.splice(0)) {
+		rmSync(directory, { recursive: true, force: true });
+	}
+});
+
+const setup = (quotas?: Parameters<typeof createUsageTracker>[0]["quotas"]) => {
+	let time = START;
+	const tracker = createUsageTracker({
+		filePath: join(dataDirectory(), "token-usage.json"),
+		quotas,
+		now: () => time,
+	});
+	return {
+		tracker,
+		advance: (ms: number) => {
+			time += ms;
+		},
+	};
+};
+
+const tokens = (promptTokens: number, completionTokens = 0) => ({
+	promptTokens,
+	completionTokens,
+});
+
+describe("createUsageTracker", () => {
+	test("counts usage per sender and conversation, by day and month", () => {
+		const { tracker } = setup();
+
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(100, 20) });
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(50, 5) });
+		tracker.record({ ...ALICE, source: "reaction", usage: tokens(10, 1) });
+
+		expect(tracker.report("2026-10-19")).toEqual([
+			{
+				period: "2026-10-19",
+				scope: "conversation",
+				id: "dm-1",
+				source: "agent",
+				requests: 2,
+				promptTokens: 150,
+				completionTokens: 25,
+				totalTokens: 175,
+			},
+			{
+				period: "2026-10-19",
+				scope: "conversation",
+				id: "dm-1",
+				source: "reaction",
+				requests: 1,
+				promptTokens: 10,
+				completionTokens: 1,
+				totalTokens: 11,
+			},
+			{
+				period: "2026-10-19",
+				scope: "sender",
+				id: "0xalice",
+				source: "agent",
+				requests: 2,
+				promptTokens: 150,
+				completionTokens: 25,
+				totalTokens: 175,
+			},
+			{
+				period: "2026-10-19",
+				scope: "sender",
+				id: "0xalice",
+				source: "reaction",
+				requests: 1,
+				promptTokens: 10,
+				completionTokens: 1,
+				totalTokens: 11,
+			},
+		]);
+		expect(tracker.report("2026-10").map(({ period }) => period)).toContain(
+			"2026-10",
+		);
+	});
+
+	test("enforces sender and conversation quotas on agent tokens only", () => {
+		const { tracker } = setup({
+			sender: { daily: 100 },
+			conversation: { monthly: 1_000 },
+		});
+
+		tracker.record({ ...ALICE, source: "reaction", usage: tokens(500) });
+		expect(tracker.checkQuota(ALICE)).toEqual({ exceeded: false });
+
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(90, 10) });
+		expect(tracker.checkQuota(ALICE)).toEqual({
+			exceeded: true,
+			scope: "sender",
+			period: "daily",
+			used: 100,
+			limit: 100,
+			notify: true,
+		});
+		// announced once per period
+		expect(tracker.checkQuota(ALICE)).toMatchObject({ notify: false });
+
+		// the same sender in another conversation is still over, others are not
+		expect(
+			tracker.checkQuota({ ...ALICE, conversationId: "dm-2" }),
+		).toMatchObject({ exceeded: true, scope: "sender" });
+		expect(tracker.checkQuota(BOB)).toEqual({ exceeded: false });
+
+		tracker.record({ ...BOB, source: "agent", usage: tokens(1_000) });
+		expect(tracker.checkQuota({ ...BOB, senderAddress: "0xCarol" })).toEqual({
+			exceeded: true,
+			scope: "conversation",
+			period: "monthly",
+			used: 1_000,
+			limit: 1_000,
+			notify: true,
+		});
+	});
+
+	test("resets daily quotas the next day and monthly ones the next month", () => {
+		const { tracker, advance } = setup({
+			sender: { daily: 100, monthly: 250 },
+			conversation: {},
+		});
+
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(100) });
+		expect(tracker.checkQuota(ALICE)).toMatchObject({ period: "daily" });
+
+		advance(DAY);
+		expect(tracker.checkQuota(ALICE)).toEqual({ exceeded: false });
+
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(90) });
+		advance(DAY);
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(60) });
+		expect(tracker.checkQuota(ALICE)).toMatchObject({
+			period: "monthly",
+			used: 250,
+			notify: true,
+		});
+
+		// 2026-11-01
+		advance(11 * DAY);
+		expect(tracker.checkQuota(ALICE)).toEqual({ exceeded: false });
+	});
+
+	test("announces a quota again in the next period", () => {
+		const { tracker, advance } = setup({
+			sender: { daily: 100 },
+			conversation: {},
+		});
+
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(100) });
+		expect(tracker.checkQuota(ALICE)).toMatchObject({ notify: true });
+		expect(tracker.checkQuota(ALICE)).toMatchObject({ notify: false });
+
+		advance(DAY);
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(100) });
+		expect(tracker.checkQuota(ALICE)).toMatchObject({ notify: true });
+	});
+
+	test("records requests without token counts as zero tokens", () => {
+		const { tracker } = setup({ sender: { daily: 100 }, conversation: {} });
+
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(Number.NaN) });
+		tracker.record({
+			...ALICE,
+			source: "agent",
+			usage: tokens(40, Number.POSITIVE_INFINITY),
+		});
+
+		expect(tracker.report("2026-10-19")[0]).toMatchObject({
+			requests: 2,
+			promptTokens: 40,
+			completionTokens: 0,
+		});
+		expect(tracker.checkQuota(ALICE)).toEqual({ exceeded: false });
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(60) });
+		expect(tracker.checkQuota(ALICE)).toMatchObject({ exceeded: true });
+	});
+
+	test("prunes old daily counters and keeps monthly ones", () => {
+		let time = START;
+		const tracker = createUsageTracker({
+			filePath: join(dataDirectory(), "token-usage.json"),
+			retainDays: 7,
+			now: () => time,
+		});
+
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(10) });
+		time += 8 * DAY;
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(10) });
+
+		expect([...new Set(tracker.report().map(({ period }) => period))]).toEqual([
+			"2026-10",
+			"2026-10-27",
+		]);
+	});
+
+	test("keeps usage across restarts", async () => {
+		const filePath = join(dataDirectory(), "token-usage.json");
+		const tracker = createUsageTracker({ filePath, now: () => START });
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(10, 5) });
+		await tracker.flush();
+
+		const restarted = createUsageTracker({ filePath, now: () => START });
+
+		expect(restarted.report()).toEqual(tracker.report());
+	});
+});
+
+describe("export-usage", () => {
+	const exportUsage = async (dataDir: string, ...args: string[]) => {
+		const proc = Bun.spawn(
+			[process.execPath, "scripts/export-usage.ts", ...args],
+			{
+				env: {
+					...process.env,
+					RAILWAY_VOLUME_MOUNT_PATH: dataDir,
+					XMTP_ENV: "dev",
+					WALLET_KEY: `0x${"11".repeat(32)}`,
+					ENCRYPTION_KEY: "22".repeat(32),
+					AGENT_BACKEND: "mock",
+					LOG_LEVEL: "error",
+				},
+				stdout: "pipe",
+				stderr: "pipe",
+			},
+		);
+		const [stdout, exitCode] = await Promise.all([
+			new Response(proc.stdout).text(),
+			proc.exited,
+		]);
+		return { stdout, exitCode };
+	};
+
+	const recordUsage = async () => {
+		const dataDir = dataDirectory();
+		let time = Date.parse("2026-09-30T12:00:00Z");
+		const tracker = createUsageTracker({
+			filePath: join(dataDir, "dev-token-usage.json"),
+			now: () => time,
+		});
+		tracker.record({ ...ALICE, source: "agent", usage: tokens(100, 20) });
+		time = START;
+		tracker.record({ ...BOB, source: "agent", usage: tokens(7, 3) });
+		await tracker.flush();
+		return dataDir;
+	};
+
+	test("prints the usage of a period as CSV", async () => {
+		const { stdout, exitCode } = await exportUsage(
+			await recordUsage(),
+			"--period",
+			"2026-10-19",
+		);
+
+		expect(exitCode).toBe(0);
+		expect(stdout).toBe(
+			[
+				"period,scope,id,source,requests,promptTokens,completionTokens,totalTokens",
+				'"2026-10-19","conversation","group-1","agent",1,7,3,10',
+				'"2026-10-19","sender","0xbob","agent",1,7,3,10',
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("prints every period as JSON", async () => {
+		const { stdout, exitCode } = await exportUsage(
+			await recordUsage(),
+			"--format",
+			"json",
+		);
+
+		expect(exitCode).toBe(0);
+		const records = JSON.parse(stdout);
+		expect(records.map(({ period }: { period: string }) => period)).toEqual([
+			"2026-09",
+			"2026-09",
+			"2026-09-30",
+			"2026-09-30",
+			"2026-10",
+			"2026-10",
+			"2026-10-19",
+			"2026-10-19",
+		]);
+		expect(records[0]).toEqual({
+			period: "2026-09",
+			scope: "conversation",
+			id: "dm-1",
+			source: "agent",
+			requests: 1,
+			promptTokens: 100,
+			completionTokens: 20,
+			totalTokens: 120,
+		});
+	});
+
+	test("rejects unknown formats", async () => {
+		const { stdout, exitCode } = await exportUsage(
+			dataDirectory(),
+			"--format",
+			"xml",
+		);
+
+		expect(exitCode).toBe(1);
+		expect(stdout).toBe("");
+	});
+});